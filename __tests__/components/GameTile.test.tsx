@@ -0,0 +1,42 @@
+/**
+ * Unit tests for GameTile component
+ */
+
+import '@testing-library/jest-dom';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { makeStore } from '@/store/store';
+import GameTile from '@/components/GameTile';
+import type { GameTile as GameTileType } from '@/types';
+
+// Mock Next.js Image component
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: (props: React.ComponentProps<'img'>) => {
+    // eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text
+    return <img {...props} />;
+  },
+}));
+
+describe('GameTile', () => {
+  const game: GameTileType = { id: '1', slug: 'book-of-dead', name: 'Book of Dead', thumbnail: '' };
+
+  it('should link to the game page with the favorite toggle outside the link', () => {
+    const store = makeStore();
+    render(
+      <Provider store={store}>
+        <GameTile game={game} />
+      </Provider>
+    );
+
+    const link = screen.getByRole('link', { name: /Book of Dead/ });
+    const favoriteButton = screen.getByRole('button', { name: 'Add Book of Dead to favorites' });
+    expect(link).toHaveAttribute('href', '/en/games/book-of-dead');
+    expect(link).not.toContainElement(favoriteButton);
+
+    fireEvent.click(favoriteButton);
+
+    expect(favoriteButton).toHaveAttribute('aria-pressed', 'true');
+    expect(store.getState().recentlyPlayed.items).toHaveLength(0);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Unit tests for the home layout's category rails
+ */
+
+import '@testing-library/jest-dom';
+import { render, screen } from '@testing-library/react';
+import { Provider } from 'react-redux';
+import { makeStore } from '@/store/store';
+import { CategoryRail, CategoryRails } from '@/components/HomeRails';
+import { fetchCategoryGames, fetchConfig } from '@/services/api';
+import type { Category, GameTile } from '@/types';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  fetchConfig: jest.fn(),
+  fetchCategoryGames: jest.fn(),
+}));
+
+// Mock Next.js Image component
+jest.mock('next/image', () => ({
+  __esModule: true,
+  default: (props: React.ComponentProps<'img'>) => {
+    // eslint-disable-next-line @next/next/no-img-element, jsx-a11y/alt-text
+    return <img {...props} />;
+  },
+}));
+
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: jest.fn() }),
+}));
+
+describe('HomeRails', () => {
+  const category: Category = {
+    id: 'new-games',
+    slug: 'new-games',
+    name: 'New Games',
+    getPage: '/pages/en/casino/new-games',
+    endpoint: 'page',
+  };
+
+  const games: GameTile[] = [
+    { id: '1', name: 'Book of Dead', thumbnail: '' },
+    { id: '2', name: 'Starburst', thumbnail: '' },
+  ];
+
+  const renderWithStore = (element: React.ReactNode) =>
+    render(<Provider store={makeStore()}>{element}</Provider>);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should render a category rail with a link to the full category', async () => {
+    (fetchCategoryGames as jest.Mock).mockResolvedValue({ games, totalCount: 40, pageNumber: 1, pageSize: 12 });
+
+    renderWithStore(await CategoryRail({ category, locale: 'en', position: 0 }));
+
+    expect(fetchCategoryGames).toHaveBeenCalledWith(
+      '/pages/en/casino/new-games',
+      expect.objectContaining({ pageNumber: 1, locale: 'en' })
+    );
+    expect(screen.getByRole('heading', { name: 'New Games' })).toBeInTheDocument();
+    expect(screen.getByText('Book of Dead')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'See all (40)' })).toHaveAttribute(
+      'href',
+      expect.stringContaining('category=new-games')
+    );
+  });
+
+  it('should leave out a rail whose games could not be fetched', async () => {
+    (fetchCategoryGames as jest.Mock).mockRejectedValue(new Error('Service Unavailable'));
+
+    await expect(CategoryRail({ category, locale: 'en', position: 0 })).resolves.toBeNull();
+  });
+
+  it('should show an empty state when the categories could not be fetched', async () => {
+    (fetchConfig as jest.Mock).mockRejectedValue(new Error('Service Unavailable'));
+
+    renderWithStore(await CategoryRails({ locale: 'en' }));
+
+    expect(screen.getByText('No categories available')).toBeInTheDocument();
+    expect(fetchCategoryGames).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Unit tests for OfflineBanner component
+ */
+
+import '@testing-library/jest-dom';
+import { act, render, screen } from '@testing-library/react';
+import OfflineBanner from '@/components/OfflineBanner';
+
+describe('OfflineBanner', () => {
+  const setOnline = (online: boolean) => {
+    jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+    act(() => {
+      window.dispatchEvent(new Event(online ? 'online' : 'offline'));
+    });
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only be shown while the browser is offline', () => {
+    render(<OfflineBanner />);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+
+    setOnline(false);
+    expect(screen.getByRole('status')).toHaveTextContent('You are offline');
+
+    setOnline(true);
+    expect(screen.queryByRole('status')).not.toBeInTheDocument();
+  });
+});
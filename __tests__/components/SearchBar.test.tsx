@@ -6,6 +6,8 @@ import '@testing-library/jest-dom';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { Provider } from 'react-redux';
 import { makeStore } from '@/store/store';
+import { setCategories } from '@/store/slices/categoriesSlice';
+import { GAMES_ACTION_TYPES } from '@/store/slices/gamesSlice';
 import SearchBar from '@/components/SearchBar';
 
 // Mock Next.js Image component
@@ -17,11 +19,17 @@ jest.mock('next/image', () => ({
   },
 }));
 
+const mockPush = jest.fn();
+jest.mock('next/navigation', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
 describe('SearchBar', () => {
   let store: ReturnType<typeof makeStore>;
 
   beforeEach(() => {
     store = makeStore();
+    mockPush.mockClear();
   });
 
   it('should render search input', () => {
@@ -83,5 +91,82 @@ describe('SearchBar', () => {
       expect(input.value).toBe('');
     });
   });
-});
 
+  describe('suggestions', () => {
+    const renderWithGames = () => {
+      store.dispatch(setCategories([{ id: 'slots', slug: 'slots', name: 'Slots', getPage: '/en/games/tiles', endpoint: 'tiles' }]));
+      store.dispatch({
+        type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_FULFILLED,
+        payload: {
+          requestId: 0,
+          requestKey: 'slots',
+          games: [
+            { id: '1', name: 'Starburst', slug: 'starburst', thumbnail: '', provider: 'NetEnt' },
+            { id: '2', name: 'Book of Dead', slug: 'book-of-dead', thumbnail: '', provider: "Play'n GO" },
+          ],
+          totalCount: 2,
+          pageNumber: 1,
+          pageSize: 10,
+          requestedPageSize: 10,
+          providersFilteredUpstream: false,
+          append: false,
+          fetchedAt: Date.now(),
+        },
+      });
+
+      render(
+        <Provider store={store}>
+          <SearchBar />
+        </Provider>
+      );
+      return screen.getByRole('combobox');
+    };
+
+    it('should list matching games while typing', () => {
+      const input = renderWithGames();
+      fireEvent.change(input, { target: { value: 'star' } });
+
+      expect(input).toHaveAttribute('aria-expanded', 'true');
+      expect(screen.getByRole('option', { name: /Starburst/ })).toBeInTheDocument();
+      expect(screen.queryByRole('option', { name: /Book of Dead/ })).not.toBeInTheDocument();
+    });
+
+    it('should move the active option with the arrow keys', () => {
+      const input = renderWithGames();
+      fireEvent.change(input, { target: { value: 'star' } });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+
+      const option = screen.getByRole('option', { name: /Starburst/ });
+      expect(option).toHaveAttribute('aria-selected', 'true');
+      expect(input).toHaveAttribute('aria-activedescendant', option.id);
+    });
+
+    it('should open the active game on Enter without searching', () => {
+      const input = renderWithGames();
+      fireEvent.change(input, { target: { value: 'star' } });
+      fireEvent.keyDown(input, { key: 'ArrowDown' });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(mockPush).toHaveBeenCalledWith('/en/games/starburst');
+      expect(store.getState().games.searchQuery).toBe('');
+    });
+
+    it('should search right away on Enter without an active option', () => {
+      const input = renderWithGames();
+      fireEvent.change(input, { target: { value: 'book' } });
+      fireEvent.keyDown(input, { key: 'Enter' });
+
+      expect(store.getState().games.searchQuery).toBe('book');
+      expect(store.getState().recentSearches.items).toEqual(['book']);
+    });
+
+    it('should close the suggestions on Escape', () => {
+      const input = renderWithGames();
+      fireEvent.change(input, { target: { value: 'star' } });
+      fireEvent.keyDown(input, { key: 'Escape' });
+
+      expect(input).toHaveAttribute('aria-expanded', 'false');
+      expect((input as HTMLInputElement).value).toBe('star');
+    });
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * Unit tests for StructuredData components
+ */
+
+import { render } from '@testing-library/react';
+import { GameStructuredData } from '@/components/StructuredData';
+
+describe('GameStructuredData', () => {
+  it('should escape upstream text that would close the script tag', () => {
+    const game = {
+      id: '1',
+      name: 'Evil</script><script>alert(1)</script>',
+      thumbnail: '',
+      gameText: '<b>Bold</b>',
+    };
+
+    const { container } = render(<GameStructuredData game={game} locale="en" />);
+    const scripts = container.querySelectorAll('script[type="application/ld+json"]');
+
+    expect(scripts).toHaveLength(2);
+    scripts.forEach((script) => {
+      expect(script.innerHTML).not.toContain('<');
+    });
+    expect(JSON.parse(scripts[0].innerHTML)).toMatchObject({
+      name: game.name,
+      description: '<b>Bold</b>',
+    });
+  });
+});
@@ -2,13 +2,20 @@
  * Unit tests for API service
  */
 
-import { fetchConfig, fetchGamesTiles } from '@/services/api';
+import {
+  fetchCategoryGames,
+  fetchConfig,
+  fetchGamesTiles,
+  fetchGameBySlug,
+  searchCategoryGames,
+} from '@/services/api';
 
 // Mock fetch globally
 global.fetch = jest.fn();
 
 // Mock retryWithBackoff to avoid delays in tests
 jest.mock('@/utils/retry', () => ({
+  ...jest.requireActual('@/utils/retry'),
   retryWithBackoff: (fn: () => Promise<unknown>) => fn(),
 }));
 
@@ -39,8 +46,8 @@ describe('API Service', () => {
       };
 
       const mockCategories = [
-        { id: '1', name: 'Slots', getPage: '/en/games/slots' },
-        { id: '2', name: 'Table Games', getPage: '/en/games/table' },
+        { id: '1', slug: 'slots', name: 'Slots', getPage: '/en/games/slots', endpoint: 'page' },
+        { id: '2', slug: 'table', name: 'Table Games', getPage: '/en/games/table', endpoint: 'page' },
       ];
 
       // Mock client-side: calls /api/config (window is defined in jsdom)
@@ -52,7 +59,7 @@ describe('API Service', () => {
       const result = await fetchConfig();
 
       expect(fetch).toHaveBeenCalledWith(
-        '/api/config',
+        '/api/config?locale=en',
         expect.objectContaining({
           headers: {
             'Accept': 'application/json',
@@ -63,6 +70,33 @@ describe('API Service', () => {
       expect(result).toEqual(mockCategories);
     });
 
+    it('should derive stable ids, slugs and endpoint kinds from menu links', async () => {
+      const mockConfigResponse = {
+        menu: {
+          lobby: {
+            items: [
+              { title: 'Lobby', path: '/casino', links: { getPage: 'https://casino.api.pikakasino.com/v1/pika/pages/fi/casino' } },
+              { title: 'New Games', links: { getPage: 'https://casino.api.pikakasino.com/v1/pika/pages/fi/casino/new-games' } },
+              { title: 'New Games', links: { getPage: 'https://casino.api.pikakasino.com/v1/pika/pages/fi/casino/new-games' } },
+            ],
+          },
+        },
+      };
+      (fetch as jest.Mock).mockResolvedValue({
+        ok: true,
+        json: async () => mockConfigResponse,
+      });
+
+      const result = await fetchConfig('fi');
+
+      expect(result).toEqual([
+        { id: 'casino', slug: 'casino', name: 'Lobby', getPage: '/casino', endpoint: 'tiles' },
+        { id: 'new-games', slug: 'new-games', name: 'New Games', getPage: '/pages/fi/casino/new-games', endpoint: 'page' },
+        { id: 'new-games-2', slug: 'new-games-2', name: 'New Games', getPage: '/pages/fi/casino/new-games', endpoint: 'page' },
+      ]);
+      await expect(fetchConfig('fi')).resolves.toEqual(result);
+    });
+
     it('should handle API errors', async () => {
       (fetch as jest.Mock).mockResolvedValueOnce({
         ok: false,
@@ -120,5 +154,90 @@ describe('API Service', () => {
       expect(result.totalCount).toBe(0);
     });
   });
-});
 
+  describe('fetchGameBySlug', () => {
+    it('should search by slug words and return the exact match (client-side)', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          items: [
+            { id: '1', name: 'Book of Dead Deluxe', slug: 'book-of-dead-deluxe', thumbnail: '/a.jpg' },
+            { id: '2', name: 'Book of Dead', slug: 'book-of-dead', thumbnail: '/b.jpg' },
+          ],
+        }),
+      });
+
+      const result = await fetchGameBySlug('book-of-dead');
+
+      expect(fetch).toHaveBeenCalledWith(
+        '/api/games?category=%2Fen%2Fgames%2Ftiles&locale=en&search=book+of+dead&pageNumber=1&pageSize=50',
+        expect.any(Object)
+      );
+      expect(result?.id).toBe('2');
+    });
+
+    it('should return null when no game matches', async () => {
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ items: [{ id: '1', name: 'Other', slug: 'other', thumbnail: '' }] }),
+      });
+
+      await expect(fetchGameBySlug('missing-game')).resolves.toBeNull();
+    });
+  });
+
+  describe('fetchCategoryGames', () => {
+    it('should look up the collection total once for all pages of a category (client-side)', async () => {
+      (fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () =>
+          url.includes('gameCollections=popular')
+            ? { games: [], count: 240 }
+            : {
+                components: [
+                  {
+                    type: 'game-list',
+                    listParameters: ['popular'],
+                    games: [{ id: '1', name: 'Starburst' }],
+                  },
+                ],
+              },
+      }));
+
+      const results = await Promise.all([
+        fetchCategoryGames('/pages/en/casino/popular', { pageNumber: 1 }),
+        fetchCategoryGames('/pages/en/casino/popular', { pageNumber: 2 }),
+      ]);
+      await fetchCategoryGames('/pages/en/casino/popular', { pageNumber: 3 });
+
+      const totalLookups = (fetch as jest.Mock).mock.calls.filter(([url]) =>
+        String(url).includes('gameCollections=popular')
+      );
+      expect(totalLookups).toHaveLength(1);
+      expect(results.map((result) => result.totalCount)).toEqual([240, 240]);
+    });
+  });
+
+  describe('searchCategoryGames', () => {
+    it('should search the category through the search endpoint (client-side)', async () => {
+      const mockResponse = { games: [], totalCount: 0, pageNumber: 2, pageSize: 10 };
+      (fetch as jest.Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockResponse,
+      });
+
+      const result = await searchCategoryGames('/pages/fi/casino/new-games', {
+        search: 'book',
+        pageNumber: 2,
+        pageSize: 10,
+        providers: ['netent', 'playngo'],
+      });
+
+      expect(fetch).toHaveBeenCalledWith(
+        '/api/search?category=%2Fpages%2Ffi%2Fcasino%2Fnew-games&locale=fi&search=book&pageNumber=2&pageSize=10&providers=netent%2Cplayngo',
+        expect.any(Object)
+      );
+      expect(result).toEqual(mockResponse);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the upstream game adapter
+ */
+
+import {
+  adaptGame,
+  adaptGameListComponent,
+  adaptGames,
+  adaptGamesTilesPage,
+} from '@/services/gameAdapter';
+import { logger } from '@/utils/logger';
+
+describe('gameAdapter', () => {
+  describe('adaptGame', () => {
+    it('should map a raw game to a canonical game tile', () => {
+      const result = adaptGame({
+        id: 42,
+        gameText: 'Book of Dead',
+        slug: 'book-of-dead',
+        image: { original: { url: 'https://cdn.example.com/book.jpg' } },
+        providerName: "Play'n GO",
+        betSize: { min: 0.1, max: 100 },
+        isLiveGame: false,
+        internalRank: 7,
+      });
+
+      expect(result).toEqual({
+        ok: true,
+        issues: [],
+        value: expect.objectContaining({
+          id: '42',
+          name: 'Book of Dead',
+          thumbnail: 'https://cdn.example.com/book.jpg',
+          provider: "Play'n GO",
+          slug: 'book-of-dead',
+          betSize: { min: 0.1, max: 100 },
+        }),
+      });
+      expect(result.ok && 'internalRank' in result.value).toBe(false);
+    });
+
+    it('should derive the same id for a game without identifiers', () => {
+      const raw = { name: 'Starburst', provider: 'NetEnt' };
+      const first = adaptGame(raw);
+      const second = adaptGame({ ...raw });
+
+      expect(first.ok && first.value.id).toMatch(/^game-/);
+      expect(first.ok && first.value.id).toBe(second.ok && second.value.id);
+    });
+
+    it('should drop invalid fields and report them', () => {
+      const result = adaptGame({
+        id: '1',
+        name: 'Starburst',
+        thumbnail: 'not-a-url',
+        betSize: { min: '0.1' },
+        isLiveGame: 'yes',
+      });
+
+      expect(result.ok).toBe(true);
+      expect(result.ok && result.value).toMatchObject({ thumbnail: '', betSize: undefined });
+      expect(result.issues).toEqual([
+        'isLiveGame: expected boolean, got string',
+        'thumbnail: not a URL (not-a-url)',
+        'betSize.min: expected number, got string',
+      ]);
+    });
+
+    it('should reject records without a name', () => {
+      expect(adaptGame({ id: '1', name: 3 })).toEqual({
+        ok: false,
+        issues: ['name: expected string, got number', 'name: missing (also no gameText or title)'],
+      });
+      expect(adaptGame(null)).toEqual({ ok: false, issues: ['expected an object, got null'] });
+    });
+  });
+
+  describe('adaptGames', () => {
+    it('should skip rejected records and log the reasons', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => {});
+
+      const games = adaptGames([{ id: '1', name: 'Starburst' }, 'oops'], '/en/games/tiles');
+
+      expect(games.map((game) => game.id)).toEqual(['1']);
+      expect(warn).toHaveBeenCalledWith('Rejected upstream game', expect.objectContaining({
+        source: '/en/games/tiles',
+        index: 1,
+        reasons: ['expected an object, got string'],
+      }));
+      warn.mockRestore();
+    });
+  });
+
+  describe('adaptGameListComponent', () => {
+    it('should read games, collections and total of the games list component', () => {
+      const component = adaptGameListComponent(
+        {
+          components: [
+            { type: 'banner' },
+            {
+              type: 'game-list',
+              listParameters: { collections: ['new-games'] },
+              total: 120,
+              games: [{ id: '1', name: 'Starburst' }],
+            },
+          ],
+        },
+        '/pages/en/casino/new-games'
+      );
+
+      expect(component).toEqual({
+        games: [expect.objectContaining({ id: '1', name: 'Starburst' })],
+        collections: ['new-games'],
+        total: 120,
+      });
+    });
+
+    it('should return null for pages without a games list', () => {
+      expect(adaptGameListComponent({ components: [{ type: 'banner' }] }, '/pages/en/casino')).toBeNull();
+      expect(adaptGameListComponent([], '/pages/en/casino')).toBeNull();
+    });
+  });
+
+  describe('adaptGamesTilesPage', () => {
+    it('should read the games and total of a tiles page', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => {});
+
+      const page = adaptGamesTilesPage(
+        { games: [{ id: '1', name: 'Starburst' }, { id: '2' }], count: 'many' },
+        '/en/games/tiles'
+      );
+
+      expect(page).toEqual({
+        games: [expect.objectContaining({ id: '1', name: 'Starburst' })],
+        records: 2,
+        count: undefined,
+      });
+      expect(warn).toHaveBeenCalledWith(
+        'Invalid fields in upstream games page',
+        expect.objectContaining({ reasons: ['page.count: expected number, got string'] })
+      );
+      warn.mockRestore();
+    });
+
+    it('should return null for payloads without a games list', () => {
+      expect(adaptGamesTilesPage({ items: [] }, '/en/games/tiles')).toBeNull();
+      expect(adaptGamesTilesPage(null, '/en/games/tiles')).toBeNull();
+    });
+  });
+});
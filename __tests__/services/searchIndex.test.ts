@@ -0,0 +1,121 @@
+/**
+ * Unit tests for the server-side search index
+ */
+
+import { searchCategoryIndex } from '@/services/searchIndex';
+import { cache } from '@/utils/cache';
+import { upstreamCircuits } from '@/utils/circuitBreaker';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('searchIndex', () => {
+  const tiles = (games: unknown[], count: number) => ({
+    ok: true,
+    json: async () => ({ games, count }),
+  });
+
+  beforeEach(async () => {
+    (fetch as jest.Mock).mockReset();
+    await cache.clear();
+    Object.values(upstreamCircuits).forEach((circuit) => circuit.reset());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should index the collection behind a page category and search all of it', async () => {
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          components: [
+            {
+              type: 'game-list',
+              listParameters: { collections: ['new-games'] },
+              games: [{ id: '1', name: 'Book of Dead' }],
+            },
+          ],
+        }),
+      })
+      .mockResolvedValueOnce(
+        tiles(
+          [
+            { id: '1', name: 'Book of Dead', provider: "Play'n GO" },
+            { id: '2', name: 'Starburst', provider: 'NetEnt' },
+            { id: '3', name: 'Book of Ra', provider: 'Novomatic' },
+          ],
+          3
+        )
+      );
+
+    const result = await searchCategoryIndex({
+      categoryPath: '/pages/en/casino/new-games',
+      locale: 'en',
+      search: 'book',
+      pageNumber: 1,
+      pageSize: 1,
+      providers: [],
+    });
+
+    expect(fetch).toHaveBeenLastCalledWith(
+      'https://casino.api.pikakasino.com/v1/pika/en/games/tiles?pageNumber=1&pageSize=100&gameCollections=new-games',
+      expect.any(Object)
+    );
+    expect(result.games.map((game) => game.id)).toEqual(['1']);
+    expect(result.totalCount).toBe(2);
+  });
+
+  it('should reuse the cached index and filter by provider', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce(
+      tiles(
+        [
+          { id: '1', name: 'Book of Dead', provider: "Play'n GO" },
+          { id: '2', name: 'Book of Ra', provider: 'Novomatic' },
+        ],
+        2
+      )
+    );
+
+    const query = {
+      categoryPath: '/en/games/tiles',
+      locale: 'en' as const,
+      search: 'book',
+      pageNumber: 1,
+      pageSize: 10,
+      providers: ['novomatic'],
+    };
+    await searchCategoryIndex(query);
+    const result = await searchCategoryIndex(query);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(result.games.map((game) => game.id)).toEqual(['2']);
+    expect(result.totalCount).toBe(1);
+  });
+
+  it('should search the last known good index while the upstream is down', async () => {
+    jest.useFakeTimers({ now: 0 });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(tiles([{ id: '1', name: 'Book of Dead', provider: "Play'n GO" }], 1))
+      .mockRejectedValueOnce(new Error('Network error'));
+
+    const query = {
+      categoryPath: '/en/games/tiles',
+      locale: 'en' as const,
+      search: 'book',
+      pageNumber: 1,
+      pageSize: 10,
+      providers: [],
+    };
+    expect((await searchCategoryIndex(query)).degraded).toBe(false);
+
+    // Index expired
+    jest.setSystemTime(10 * 60 * 1000);
+    const result = await searchCategoryIndex(query);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.degraded).toBe(true);
+    expect(result.games.map((game) => game.id)).toEqual(['1']);
+  });
+});
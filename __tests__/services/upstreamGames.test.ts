@@ -0,0 +1,83 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Unit tests for the server-side games loader
+ */
+
+import { getGames, parseGamesQuery } from '@/services/upstreamGames';
+import { cache } from '@/utils/cache';
+import { upstreamCircuits } from '@/utils/circuitBreaker';
+
+// Mock fetch globally
+global.fetch = jest.fn();
+
+describe('upstreamGames', () => {
+  const upstream = (games: unknown[]) => ({
+    ok: true,
+    status: 200,
+    json: async () => ({ games, count: games.length }),
+  });
+
+  beforeEach(async () => {
+    (fetch as jest.Mock).mockReset();
+    await cache.clear();
+    Object.values(upstreamCircuits).forEach((circuit) => circuit.reset());
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should read the query of /api/games', () => {
+    const query = parseGamesQuery(
+      new URLSearchParams({ category: '/pages/fi/casino/new-games', pageNumber: '2' })
+    );
+
+    expect(query).toMatchObject({ category: '/pages/fi/casino/new-games', pageNumber: '2', locale: 'fi' });
+  });
+
+  it('should fetch a query once and serve it from the cache afterwards', async () => {
+    (fetch as jest.Mock).mockResolvedValueOnce(upstream([{ id: '1' }]));
+    const query = parseGamesQuery(
+      new URLSearchParams({ category: '/pages/en/casino/new-games', pageNumber: '2', pageSize: '10' })
+    );
+
+    const first = await getGames(query);
+    const second = await getGames(query);
+
+    // Page components list all their games - no pagination parameters
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://casino.api.pikakasino.com/v1/pika/pages/en/casino/new-games',
+      expect.any(Object)
+    );
+    expect(first).toMatchObject({ ok: true, cacheStatus: 'MISS' });
+    expect(second).toMatchObject({ ok: true, cacheStatus: 'HIT', data: { games: [{ id: '1' }] } });
+  });
+
+  it('should serve the last known good games while the upstream is down', async () => {
+    jest.useFakeTimers({ now: 0 });
+    (fetch as jest.Mock)
+      .mockResolvedValueOnce(upstream([{ id: '1' }]))
+      .mockRejectedValueOnce(new Error('Network error'));
+    const query = parseGamesQuery(new URLSearchParams({ pageSize: '10' }));
+    await getGames(query);
+
+    // Past the stale window
+    jest.setSystemTime(60 * 60 * 1000);
+    const result = await getGames(query);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ ok: true, degraded: true, data: { games: [{ id: '1' }] } });
+  });
+
+  it('should report the failure when there are no games to fall back to', async () => {
+    (fetch as jest.Mock).mockRejectedValueOnce(new Error('Network error'));
+
+    const result = await getGames(parseGamesQuery(new URLSearchParams({ search: 'book' })));
+
+    expect(result).toEqual({ ok: false, status: 502, statusText: 'Bad Gateway' });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Unit tests for memoized selectors
+ */
+
+import { makeStore, type RootState } from '@/store/store';
+import {
+  selectBetSizeRange,
+  selectGamesWithPagination,
+  selectProviderFacets,
+} from '@/store/selectors';
+import type { GameTile } from '@/types';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  fetchConfig: jest.fn(),
+  fetchGamesTiles: jest.fn(),
+  fetchCategoryGames: jest.fn(),
+}));
+
+describe('selectors', () => {
+  const mockGames: GameTile[] = [
+    { id: '1', name: 'Book of Dead', thumbnail: '', provider: "Play'n GO", provider_slug: 'playngo', betSize: { min: 0.1, max: 100 } },
+    { id: '2', name: 'Starburst', thumbnail: '', provider: 'NetEnt', provider_slug: 'netent', betSize: { min: 0.2, max: 200 } },
+    { id: '3', name: 'Reactoonz', thumbnail: '', provider: "Play'n GO", provider_slug: 'playngo', betSize: { min: 1, max: 50 } },
+    { id: '4', name: 'Gonzo Quest', thumbnail: '', provider: 'NetEnt' },
+  ];
+
+  const createState = (games: Partial<RootState['games']> = {}): RootState => {
+    const state = makeStore().getState();
+    return {
+      ...state,
+      games: {
+        ...state.games,
+        entities: Object.fromEntries(mockGames.map((game) => [game.id, game])),
+        itemIds: mockGames.map((game) => game.id),
+        totalCount: mockGames.length,
+        ...games,
+      },
+    };
+  };
+
+  describe('selectProviderFacets', () => {
+    it('should derive providers with counts from loaded games', () => {
+      const facets = selectProviderFacets(createState());
+
+      expect(facets).toEqual([
+        { slug: 'netent', name: 'NetEnt', logo: undefined, count: 2 },
+        { slug: 'playngo', name: "Play'n GO", logo: undefined, count: 2 },
+      ]);
+    });
+
+    it('should count only games matching the search query', () => {
+      const facets = selectProviderFacets(createState({ searchQuery: 'book' }));
+
+      expect(facets).toEqual([{ slug: 'playngo', name: "Play'n GO", logo: undefined, count: 1 }]);
+    });
+
+    it('should keep selected providers that have no matching games', () => {
+      const facets = selectProviderFacets(
+        createState({ searchQuery: 'book', selectedProviders: ['netent'] })
+      );
+
+      expect(facets.map((facet) => facet.slug)).toEqual(['playngo', 'netent']);
+    });
+
+    it('should keep every provider of the unfiltered view while filtering by provider', () => {
+      const facets = selectProviderFacets(
+        createState({
+          itemIds: ['2', '4'],
+          facetIds: mockGames.map((game) => game.id),
+          selectedProviders: ['netent'],
+          providersFilteredUpstream: true,
+        })
+      );
+
+      expect(facets.map((facet) => facet.slug)).toEqual(['netent', 'playngo']);
+    });
+  });
+
+  describe('selectGamesWithPagination', () => {
+    it('should filter by provider client-side when the API did not', () => {
+      const result = selectGamesWithPagination(createState({ selectedProviders: ['netent'] }));
+
+      expect(result.games.map((game) => game.id)).toEqual(['2', '4']);
+      expect(result.totalCount).toBe(2);
+    });
+
+    it('should keep the total of the API when it already filtered by provider', () => {
+      const result = selectGamesWithPagination(
+        createState({ selectedProviders: ['netent'], providersFilteredUpstream: true, totalCount: 40 })
+      );
+
+      // Still filtered client-side as a safety net
+      expect(result.games.map((game) => game.id)).toEqual(['2', '4']);
+      expect(result.totalCount).toBe(40);
+    });
+
+    it('should keep search results of the API with their total', () => {
+      const result = selectGamesWithPagination(
+        createState({ searchQuery: 'book', searchFilteredUpstream: true, totalCount: 25 })
+      );
+
+      expect(result.games).toHaveLength(4);
+      expect(result.totalCount).toBe(25);
+    });
+
+    it('should filter by bet size range', () => {
+      const result = selectGamesWithPagination(
+        createState({ betSizeFilter: { maxMinBet: 0.5, minMaxBet: 150 } })
+      );
+
+      expect(result.games.map((game) => game.id)).toEqual(['2']);
+      expect(result.totalCount).toBe(1);
+    });
+
+    it('should keep the upstream order by default and sort on request', () => {
+      const ids = (sortOrder: RootState['games']['sortOrder']) =>
+        selectGamesWithPagination(createState({ sortOrder })).games.map((game) => game.id);
+
+      expect(ids('default')).toEqual(['1', '2', '3', '4']);
+      expect(ids('name')).toEqual(['1', '4', '3', '2']);
+      expect(ids('minBet')).toEqual(['1', '2', '3', '4']);
+      expect(ids('maxBet')).toEqual(['2', '1', '3', '4']);
+    });
+
+    it('should not sort or filter by bet size a single page of the API', () => {
+      const state = createState({
+        sortOrder: 'name',
+        betSizeFilter: { maxMinBet: 0.5, minMaxBet: 150 },
+        totalCount: 40,
+      });
+      const result = selectGamesWithPagination({
+        ...state,
+        categories: {
+          ...state.categories,
+          selectedCategory: { id: 'all', slug: 'all', name: 'All', getPage: '/en/games/tiles', endpoint: 'tiles' },
+        },
+      });
+
+      expect(result.games.map((game) => game.id)).toEqual(['1', '2', '3', '4']);
+      expect(result.totalCount).toBe(40);
+    });
+  });
+
+  describe('selectGamesWithPagination in infinite scroll mode', () => {
+    it('should show every loaded page', () => {
+      const result = selectGamesWithPagination(
+        createState({ scrollMode: 'infinite', pageSize: 2, pageNumber: 2, totalCount: 10 })
+      );
+
+      expect(result.games.map((game) => game.id)).toEqual(['1', '2', '3', '4']);
+      expect(result.hasMore).toBe(true);
+    });
+
+    it('should reveal a fully fetched list page by page', () => {
+      const result = selectGamesWithPagination(
+        createState({ scrollMode: 'infinite', pageSize: 3, pageNumber: 1 })
+      );
+
+      expect(result.games.map((game) => game.id)).toEqual(['1', '2', '3']);
+      expect(result.hasMore).toBe(true);
+    });
+  });
+
+  describe('selectBetSizeRange', () => {
+    it('should return the stake range of the loaded games', () => {
+      expect(selectBetSizeRange(createState())).toEqual({ min: 0.1, max: 200 });
+    });
+  });
+});
@@ -5,6 +5,7 @@
 import categoriesReducer, {
   setCategories,
   setSelectedCategory,
+  setLocale,
   clearError,
   CATEGORIES_ACTION_TYPES,
 } from '@/store/slices/categoriesSlice';
@@ -17,13 +18,14 @@ jest.mock('@/services/api', () => ({
 
 describe('categoriesSlice', () => {
   const mockCategories: Category[] = [
-    { id: '1', name: 'Slots', getPage: '/en/games/slots' },
-    { id: '2', name: 'Table Games', getPage: '/en/games/table' },
+    { id: '1', slug: 'slots', name: 'Slots', getPage: '/en/games/slots', endpoint: 'page' },
+    { id: '2', slug: 'table', name: 'Table Games', getPage: '/en/games/table', endpoint: 'page' },
   ];
 
   const initialState = {
     items: [],
     selectedCategory: null,
+    locale: 'en' as const,
     loading: false,
     error: null,
   };
@@ -51,6 +53,24 @@ describe('categoriesSlice', () => {
     expect(state.selectedCategory).toEqual(mockCategories[1]);
   });
 
+  it('should handle setLocale and drop categories of the previous locale', () => {
+    const state = categoriesReducer(
+      { ...initialState, items: mockCategories, selectedCategory: mockCategories[0] },
+      setLocale('fi')
+    );
+
+    expect(state.locale).toBe('fi');
+    expect(state.items).toEqual([]);
+    expect(state.selectedCategory).toBeNull();
+  });
+
+  it('should keep categories when setLocale does not change the locale', () => {
+    const stateWithItems = { ...initialState, items: mockCategories };
+    const state = categoriesReducer(stateWithItems, setLocale('en'));
+
+    expect(state).toBe(stateWithItems);
+  });
+
   it('should handle clearError', () => {
     const stateWithError = { ...initialState, error: 'Some error' };
     const state = categoriesReducer(stateWithError, clearError());
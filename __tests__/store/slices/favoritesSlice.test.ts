@@ -0,0 +1,56 @@
+/**
+ * Unit tests for favorites slice
+ */
+
+import favoritesReducer, {
+  toggleFavorite,
+  hydrateFavorites,
+  isFavoritesCategory,
+  FAVORITES_CATEGORY,
+} from '@/store/slices/favoritesSlice';
+import type { GameTile } from '@/types';
+
+describe('favoritesSlice', () => {
+  const mockGames: GameTile[] = [
+    { id: '1', name: 'Book of Dead', thumbnail: '' },
+    { id: '2', name: 'Starburst', thumbnail: '' },
+  ];
+
+  const initialState = {
+    items: [],
+    hydrated: false,
+  };
+
+  it('should return initial state', () => {
+    expect(favoritesReducer(undefined, { type: 'unknown' })).toEqual(initialState);
+  });
+
+  it('should add a game with the most recent first', () => {
+    let state = favoritesReducer(initialState, toggleFavorite(mockGames[0]));
+    state = favoritesReducer(state, toggleFavorite(mockGames[1]));
+
+    expect(state.items.map((game) => game.id)).toEqual(['2', '1']);
+  });
+
+  it('should remove a game that is already a favorite', () => {
+    const state = favoritesReducer(
+      { ...initialState, items: mockGames },
+      toggleFavorite(mockGames[0])
+    );
+
+    expect(state.items.map((game) => game.id)).toEqual(['2']);
+  });
+
+  it('should handle hydrateFavorites', () => {
+    const state = favoritesReducer(initialState, hydrateFavorites(mockGames));
+
+    expect(state.items).toEqual(mockGames);
+    expect(state.hydrated).toBe(true);
+  });
+
+  it('should identify the favorites category', () => {
+    expect(isFavoritesCategory(FAVORITES_CATEGORY)).toBe(true);
+    expect(isFavoritesCategory({ id: '1', slug: 'slots', name: 'Slots', getPage: '/en/games/slots', endpoint: 'page' })).toBe(false);
+    expect(isFavoritesCategory(null)).toBe(false);
+  });
+});
@@ -0,0 +1,373 @@
+/**
+ * Unit tests for games slice
+ */
+
+import gamesReducer, {
+  fetchGamesByCategory,
+  fetchSelectedCategoryGames,
+  prefetchGamesByCategory,
+  setPageNumber,
+  setScrollMode,
+  GAMES_ACTION_TYPES,
+} from '@/store/slices/gamesSlice';
+import { makeStore, type AppDispatch } from '@/store/store';
+import { setCategories, setSelectedCategory } from '@/store/slices/categoriesSlice';
+import { fetchCategoryGames, searchCategoryGames } from '@/services/api';
+import { GAMES_QUERY_TTL } from '@/constants';
+import type { Category, GameTile } from '@/types';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  fetchGamesTiles: jest.fn(),
+  fetchCategoryGames: jest.fn(),
+  searchCategoryGames: jest.fn(),
+}));
+
+describe('gamesSlice', () => {
+  const createGame = (id: string): GameTile => ({ id, name: `Game ${id}`, thumbnail: '' });
+
+  const pending = (requestId: number, requestKey = `key-${requestId}`) => ({
+    type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING,
+    payload: { requestId, requestKey },
+  });
+
+  const fulfilled = (games: GameTile[], append: boolean, requestId = 0) => ({
+    type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_FULFILLED,
+    payload: {
+      requestId,
+      requestKey: `key-${requestId}`,
+      games,
+      totalCount: 10,
+      pageNumber: 1,
+      pageSize: 2,
+      requestedPageSize: 2,
+      providersFilteredUpstream: false,
+      fetchedWithProviders: false,
+      searchFilteredUpstream: false,
+      append,
+      fetchedAt: 0,
+    },
+  });
+
+  it('should replace loaded games with a fetched page', () => {
+    let state = gamesReducer(undefined, fulfilled([createGame('1'), createGame('2')], false));
+    state = gamesReducer(state, fulfilled([createGame('3'), createGame('4')], false));
+
+    expect(state.itemIds).toEqual(['3', '4']);
+  });
+
+  it('should append fetched pages without duplicates in infinite scroll mode', () => {
+    let state = gamesReducer(undefined, fulfilled([createGame('1'), createGame('2')], false));
+    state = gamesReducer(state, fulfilled([createGame('2'), createGame('3')], true));
+
+    expect(state.itemIds).toEqual(['1', '2', '3']);
+  });
+
+  it('should only apply the result of the latest request', () => {
+    let state = gamesReducer(undefined, pending(1));
+    state = gamesReducer(state, pending(2));
+    state = gamesReducer(state, fulfilled([createGame('1')], false, 1));
+
+    expect(state.itemIds).toEqual([]);
+    expect(state.loading).toBe(true);
+    expect(state.requests['key-1'].status).toBe('succeeded');
+
+    state = gamesReducer(state, fulfilled([createGame('2')], false, 2));
+
+    expect(state.itemIds).toEqual(['2']);
+    expect(state.loading).toBe(false);
+    expect(state.requests['key-2']).toEqual({ requestId: 2, status: 'succeeded', error: null });
+  });
+
+  it('should store games shared by several pages once', () => {
+    let state = gamesReducer(undefined, pending(1));
+    state = gamesReducer(state, fulfilled([createGame('1'), createGame('2')], false, 1));
+    state = gamesReducer(state, pending(2));
+    state = gamesReducer(state, fulfilled([createGame('2'), createGame('3')], false, 2));
+
+    expect(Object.keys(state.entities)).toEqual(['1', '2', '3']);
+    expect(state.queries['key-1'].ids).toEqual(['1', '2']);
+    expect(state.itemIds).toEqual(['2', '3']);
+  });
+
+  it('should handle setScrollMode', () => {
+    let state = gamesReducer(undefined, setPageNumber(3));
+    state = gamesReducer(state, setScrollMode('infinite'));
+
+    expect(state.scrollMode).toBe('infinite');
+    expect(state.pageNumber).toBe(1);
+  });
+
+  describe('fetchGamesByCategory', () => {
+    const response = { games: [createGame('1')], totalCount: 25, pageNumber: 2, pageSize: 10 };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fetchCategoryGames as jest.Mock).mockResolvedValue(response);
+      (searchCategoryGames as jest.Mock).mockResolvedValue(response);
+    });
+
+    it('should search categories without upstream search through the search index', async () => {
+      (searchCategoryGames as jest.Mock).mockResolvedValue({
+        ...response,
+        games: [{ ...createGame('1'), provider_slug: 'netent' }],
+      });
+      const store = makeStore();
+      await (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/pages/en/casino/new-games', {
+          search: 'book',
+          pageNumber: 2,
+          pageSize: 10,
+          providers: ['netent'],
+        })
+      );
+
+      expect(fetchCategoryGames).not.toHaveBeenCalled();
+      expect(searchCategoryGames).toHaveBeenCalledWith(
+        '/pages/en/casino/new-games',
+        expect.objectContaining({ search: 'book', pageNumber: 2, pageSize: 10, providers: ['netent'] }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(store.getState().games).toMatchObject({
+        totalCount: 25,
+        searchFilteredUpstream: true,
+        providersFilteredUpstream: true,
+      });
+    });
+
+    it('should pass search to categories that support it', async () => {
+      const store = makeStore();
+      await (store.dispatch as AppDispatch)(fetchGamesByCategory('/en/games/tiles', { search: 'book', pageSize: 10 }));
+
+      expect(searchCategoryGames).not.toHaveBeenCalled();
+      expect(fetchCategoryGames).toHaveBeenCalledWith(
+        '/en/games/tiles',
+        expect.objectContaining({ search: 'book', pageSize: 10 }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(store.getState().games.searchFilteredUpstream).toBe(true);
+    });
+
+    it('should filter by provider through the search index when the API ignored it', async () => {
+      (fetchCategoryGames as jest.Mock).mockResolvedValue({
+        ...response,
+        games: [
+          { ...createGame('1'), provider_slug: 'netent' },
+          { ...createGame('2'), provider_slug: 'playngo' },
+        ],
+      });
+      (searchCategoryGames as jest.Mock).mockResolvedValue({
+        ...response,
+        games: [{ ...createGame('1'), provider_slug: 'netent' }],
+        totalCount: 14,
+      });
+      const store = makeStore();
+      await (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/en/games/tiles', { pageSize: 10, providers: ['netent'] })
+      );
+
+      expect(fetchCategoryGames).toHaveBeenCalledWith(
+        '/en/games/tiles',
+        expect.objectContaining({ providers: ['netent'] }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(searchCategoryGames).toHaveBeenCalledWith(
+        '/en/games/tiles',
+        expect.objectContaining({ pageSize: 10, providers: ['netent'] }),
+        { signal: expect.any(AbortSignal) }
+      );
+      // The index's total of the provider's games, not the matches on the loaded page
+      expect(store.getState().games).toMatchObject({ totalCount: 14, providersFilteredUpstream: true });
+    });
+
+    it('should drop the result of a cancelled request', async () => {
+      const store = makeStore();
+      const controller = new AbortController();
+      (fetchCategoryGames as jest.Mock).mockImplementation(async () => {
+        controller.abort();
+        throw new DOMException('The operation was aborted', 'AbortError');
+      });
+
+      await (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/en/games/tiles', { pageSize: 10 }, { signal: controller.signal })
+      );
+
+      expect(store.getState().games).toMatchObject({ loading: false, error: null, requests: {} });
+    });
+
+    it('should not start a request whose signal is already aborted', async () => {
+      const store = makeStore();
+      const controller = new AbortController();
+      controller.abort();
+
+      await (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/en/games/tiles', { pageSize: 10 }, { signal: controller.signal })
+      );
+
+      expect(fetchCategoryGames).not.toHaveBeenCalled();
+      expect(store.getState().games).toMatchObject({ loading: false, requests: {} });
+    });
+
+    it('should abort the running request when a newer one starts', async () => {
+      const store = makeStore();
+      const signals: AbortSignal[] = [];
+      (fetchCategoryGames as jest.Mock).mockImplementation(
+        (_url: string, _params: unknown, { signal }: { signal: AbortSignal }) => {
+          signals.push(signal);
+          return signal.aborted ? Promise.reject(new Error('aborted')) : Promise.resolve(response);
+        }
+      );
+
+      const first = (store.dispatch as AppDispatch)(fetchGamesByCategory('/en/games/tiles', { pageSize: 10 }));
+      const second = (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/pages/en/casino/new-games', { pageSize: 10 })
+      );
+      await Promise.all([first, second]);
+
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[1].aborted).toBe(false);
+      expect(store.getState().games).toMatchObject({ latestRequestId: 2, loading: false, error: null });
+      expect(Object.keys(store.getState().games.requests)).toHaveLength(1);
+    });
+
+    it('should show a recently fetched category again without fetching it', async () => {
+      const store = makeStore();
+      (fetchCategoryGames as jest.Mock)
+        .mockResolvedValueOnce({ ...response, games: [createGame('1')] })
+        .mockResolvedValueOnce({ ...response, games: [createGame('2')] });
+      const fetchCategory = (getPageUrl: string) =>
+        (store.dispatch as AppDispatch)(fetchGamesByCategory(getPageUrl, { pageSize: 10 }));
+
+      await fetchCategory('/en/games/tiles');
+      await fetchCategory('/pages/en/casino/new-games');
+      await fetchCategory('/en/games/tiles');
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(2);
+      expect(store.getState().games).toMatchObject({ itemIds: ['1'], loading: false, totalCount: 25 });
+    });
+
+    it('should fetch a category again once its cached page is stale', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const store = makeStore();
+      const fetchCategory = (getPageUrl: string) =>
+        (store.dispatch as AppDispatch)(fetchGamesByCategory(getPageUrl, { pageSize: 10 }));
+
+      await fetchCategory('/en/games/tiles');
+      await fetchCategory('/pages/en/casino/new-games');
+      now.mockReturnValue(GAMES_QUERY_TTL);
+      await fetchCategory('/en/games/tiles');
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(3);
+      now.mockRestore();
+    });
+
+    it('should not repeat the latest request unless it failed', async () => {
+      const store = makeStore();
+      (fetchCategoryGames as jest.Mock).mockRejectedValueOnce(new Error('Server error'));
+      const fetchPage = () =>
+        (store.dispatch as AppDispatch)(fetchGamesByCategory('/en/games/tiles', { pageSize: 10 }));
+
+      await fetchPage();
+      expect(store.getState().games.error).toBe('Server error');
+
+      await fetchPage();
+      await fetchPage();
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(2);
+      expect(store.getState().games).toMatchObject({ error: null, totalCount: 25 });
+    });
+  });
+
+  describe('fetchSelectedCategoryGames', () => {
+    const tiles: Category = { id: 'lobby', slug: 'lobby', name: 'Lobby', getPage: '/en/games/tiles', endpoint: 'tiles' };
+    const newGames: Category = {
+      id: 'new-games',
+      slug: 'new-games',
+      name: 'New Games',
+      getPage: '/pages/en/casino/new-games',
+      endpoint: 'page',
+    };
+    const response = { games: [createGame('1')], totalCount: 25, pageNumber: 2, pageSize: 10 };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fetchCategoryGames as jest.Mock).mockResolvedValue(response);
+    });
+
+    it('should fetch the first page of categories paginated client-side', async () => {
+      const store = makeStore();
+      store.dispatch(setCategories([tiles, newGames]));
+      store.dispatch(setSelectedCategory(newGames));
+      store.dispatch(setPageNumber(3));
+
+      await (store.dispatch as AppDispatch)(fetchSelectedCategoryGames());
+
+      expect(fetchCategoryGames).toHaveBeenCalledWith(
+        '/pages/en/casino/new-games',
+        expect.objectContaining({ pageNumber: 1, pageSize: 10 }),
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should not fetch the page of a store preloaded with it again', async () => {
+      const serverStore = makeStore();
+      serverStore.dispatch(setCategories([tiles, newGames]));
+      serverStore.dispatch(setPageNumber(2));
+      await (serverStore.dispatch as AppDispatch)(fetchSelectedCategoryGames());
+
+      const store = makeStore(JSON.parse(JSON.stringify(serverStore.getState())));
+      await (store.dispatch as AppDispatch)(fetchSelectedCategoryGames());
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(1);
+      expect(store.getState().games).toMatchObject({ itemIds: ['1'], pageNumber: 2, loading: false });
+    });
+  });
+
+  describe('prefetchGamesByCategory', () => {
+    const response = { games: [createGame('2')], totalCount: 25, pageNumber: 2, pageSize: 10 };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      (fetchCategoryGames as jest.Mock).mockResolvedValue(response);
+    });
+
+    it('should cache a prefetched page without changing the shown games', async () => {
+      const store = makeStore();
+      await (store.dispatch as AppDispatch)(
+        prefetchGamesByCategory('/en/games/tiles', { pageNumber: 2, pageSize: 10 })
+      );
+
+      expect(store.getState().games).toMatchObject({ itemIds: [], latestRequestKey: null, loading: false });
+      expect(Object.keys(store.getState().games.queries)).toHaveLength(1);
+
+      await (store.dispatch as AppDispatch)(
+        fetchGamesByCategory('/en/games/tiles', { pageNumber: 2, pageSize: 10 })
+      );
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(1);
+      expect(store.getState().games).toMatchObject({ itemIds: ['2'], totalCount: 25 });
+    });
+
+    it('should wait for a running prefetch instead of fetching the page again', async () => {
+      const store = makeStore();
+      const params = { pageNumber: 2, pageSize: 10 };
+
+      const prefetch = (store.dispatch as AppDispatch)(prefetchGamesByCategory('/en/games/tiles', params));
+      const fetch = (store.dispatch as AppDispatch)(fetchGamesByCategory('/en/games/tiles', params));
+      await Promise.all([prefetch, fetch]);
+
+      expect(fetchCategoryGames).toHaveBeenCalledTimes(1);
+      expect(store.getState().games).toMatchObject({ itemIds: ['2'], loading: false });
+    });
+
+    it('should not prefetch with Data Saver on', async () => {
+      Object.defineProperty(navigator, 'connection', { value: { saveData: true }, configurable: true });
+      const store = makeStore();
+
+      await (store.dispatch as AppDispatch)(prefetchGamesByCategory('/en/games/tiles', { pageSize: 10 }));
+
+      expect(fetchCategoryGames).not.toHaveBeenCalled();
+      delete (navigator as Navigator & { connection?: unknown }).connection;
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Unit tests for recent searches slice
+ */
+
+import recentSearchesReducer, {
+  addRecentSearch,
+  clearRecentSearches,
+} from '@/store/slices/recentSearchesSlice';
+import { MAX_RECENT_SEARCHES } from '@/constants';
+
+describe('recentSearchesSlice', () => {
+  const initialState = {
+    items: [],
+    hydrated: false,
+  };
+
+  it('should return initial state', () => {
+    expect(recentSearchesReducer(undefined, { type: 'unknown' })).toEqual(initialState);
+  });
+
+  it('should add searches with the most recent first', () => {
+    let state = recentSearchesReducer(initialState, addRecentSearch('starburst'));
+    state = recentSearchesReducer(state, addRecentSearch('book of dead'));
+
+    expect(state.items).toEqual(['book of dead', 'starburst']);
+  });
+
+  it('should replace the latest search when it is refined while typing', () => {
+    let state = recentSearchesReducer(initialState, addRecentSearch('book'));
+    state = recentSearchesReducer(state, addRecentSearch('sta'));
+    state = recentSearchesReducer(state, addRecentSearch('starb'));
+
+    expect(state.items).toEqual(['starb', 'book']);
+  });
+
+  it('should move a repeated search to the front, ignoring case and accents', () => {
+    let state = recentSearchesReducer(initialState, addRecentSearch('Ölkärpänen'));
+    state = recentSearchesReducer(state, addRecentSearch('book'));
+    state = recentSearchesReducer(state, addRecentSearch('olkarpanen'));
+
+    expect(state.items).toEqual(['olkarpanen', 'book']);
+  });
+
+  it('should ignore blank searches and keep the history bounded', () => {
+    let state = recentSearchesReducer(initialState, addRecentSearch('   '));
+    expect(state.items).toEqual([]);
+
+    const terms = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf'];
+    for (const term of terms) {
+      state = recentSearchesReducer(state, addRecentSearch(term));
+    }
+    expect(state.items).toHaveLength(MAX_RECENT_SEARCHES);
+    expect(state.items[0]).toBe('golf');
+  });
+
+  it('should handle clearRecentSearches', () => {
+    const state = recentSearchesReducer({ ...initialState, items: ['book'] }, clearRecentSearches());
+
+    expect(state.items).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Unit tests for recently played slice
+ */
+
+import recentlyPlayedReducer, {
+  recordGamePlayed,
+  clearRecentlyPlayed,
+  hydrateRecentlyPlayed,
+} from '@/store/slices/recentlyPlayedSlice';
+import { MAX_RECENTLY_PLAYED } from '@/constants';
+import type { GameTile } from '@/types';
+
+describe('recentlyPlayedSlice', () => {
+  const createGame = (id: string): GameTile => ({ id, name: `Game ${id}`, thumbnail: '' });
+
+  const initialState = {
+    items: [],
+    hydrated: false,
+  };
+
+  it('should return initial state', () => {
+    expect(recentlyPlayedReducer(undefined, { type: 'unknown' })).toEqual(initialState);
+  });
+
+  it('should record games with the most recent first', () => {
+    let state = recentlyPlayedReducer(initialState, recordGamePlayed(createGame('1'), 1000));
+    state = recentlyPlayedReducer(state, recordGamePlayed(createGame('2'), 2000));
+
+    expect(state.items).toEqual([
+      { game: createGame('2'), playedAt: 2000 },
+      { game: createGame('1'), playedAt: 1000 },
+    ]);
+  });
+
+  it('should move a replayed game to the front instead of duplicating it', () => {
+    let state = recentlyPlayedReducer(initialState, recordGamePlayed(createGame('1'), 1000));
+    state = recentlyPlayedReducer(state, recordGamePlayed(createGame('2'), 2000));
+    state = recentlyPlayedReducer(state, recordGamePlayed(createGame('1'), 3000));
+
+    expect(state.items.map((entry) => [entry.game.id, entry.playedAt])).toEqual([
+      ['1', 3000],
+      ['2', 2000],
+    ]);
+  });
+
+  it('should drop the oldest games beyond the history limit', () => {
+    let state = recentlyPlayedReducer(undefined, { type: 'unknown' });
+    for (let i = 0; i < MAX_RECENTLY_PLAYED + 3; i++) {
+      state = recentlyPlayedReducer(state, recordGamePlayed(createGame(String(i)), i));
+    }
+
+    expect(state.items).toHaveLength(MAX_RECENTLY_PLAYED);
+    expect(state.items[0].game.id).toBe(String(MAX_RECENTLY_PLAYED + 2));
+  });
+
+  it('should handle clearRecentlyPlayed', () => {
+    const state = recentlyPlayedReducer(
+      { ...initialState, items: [{ game: createGame('1'), playedAt: 1000 }] },
+      clearRecentlyPlayed()
+    );
+
+    expect(state.items).toEqual([]);
+  });
+
+  it('should sort and deduplicate hydrated entries', () => {
+    const state = recentlyPlayedReducer(
+      initialState,
+      hydrateRecentlyPlayed([
+        { game: createGame('1'), playedAt: 1000 },
+        { game: createGame('2'), playedAt: 3000 },
+        { game: createGame('1'), playedAt: 2000 },
+      ])
+    );
+
+    expect(state.items.map((entry) => [entry.game.id, entry.playedAt])).toEqual([
+      ['2', 3000],
+      ['1', 2000],
+    ]);
+    expect(state.hydrated).toBe(true);
+  });
+});
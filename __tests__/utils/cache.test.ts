@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the server-side cache
+ */
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { MemoryCacheBackend, TtlCache } from '@/utils/cache';
+import { FileSystemCacheBackend } from '@/utils/fileCache';
+import { logger } from '@/utils/logger';
+
+describe('cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('MemoryCacheBackend', () => {
+    it('should evict the least recently used entry beyond the entry limit', async () => {
+      const cache = new TtlCache(new MemoryCacheBackend(2));
+      await cache.set('a', 1);
+      await cache.set('b', 2);
+      await cache.get('a'); // "b" is now the least recently used
+      await cache.set('c', 3);
+
+      expect(await cache.get('a')).toBe(1);
+      expect(await cache.get('b')).toBeNull();
+      expect(await cache.get('c')).toBe(3);
+    });
+
+    it('should evict entries beyond the size limit', async () => {
+      const cache = new TtlCache(new MemoryCacheBackend(10, 40));
+      await cache.set('a', 'x'.repeat(10)); // 24 bytes serialized
+      await cache.set('b', 'y'.repeat(10));
+
+      expect(await cache.size()).toBe(1);
+      expect(await cache.get('b')).toBe('y'.repeat(10));
+    });
+  });
+
+  describe('TtlCache', () => {
+    it('should serve stale entries within the stale window', async () => {
+      jest.useFakeTimers({ now: 0 });
+      const cache = new TtlCache(new MemoryCacheBackend());
+      await cache.set('key', 'value', 1000, 5000);
+
+      jest.setSystemTime(500);
+      expect(await cache.lookup('key')).toEqual({ data: 'value', status: 'HIT' });
+
+      jest.setSystemTime(3000);
+      expect(await cache.lookup('key')).toEqual({ data: 'value', status: 'STALE' });
+      expect(await cache.get('key')).toBeNull();
+
+      jest.setSystemTime(7000);
+      expect(await cache.lookup('key')).toBeNull();
+    });
+
+    it('should refresh once per key and keep the stale value when the refresh fails', async () => {
+      jest.spyOn(logger, 'warn').mockImplementation(() => {});
+      const cache = new TtlCache(new MemoryCacheBackend());
+      await cache.set('key', 'old', 0, 60000);
+
+      const load = jest.fn().mockRejectedValueOnce(new Error('Upstream down'));
+      await Promise.all([cache.revalidate('key', load, 1000, 0), cache.revalidate('key', load, 1000, 0)]);
+      expect(load).toHaveBeenCalledTimes(1);
+      expect((await cache.lookup('key'))?.data).toBe('old');
+
+      load.mockResolvedValueOnce('new');
+      await cache.revalidate('key', load, 1000, 0);
+      expect(await cache.lookup('key')).toEqual({ data: 'new', status: 'HIT' });
+    });
+
+    it('should keep last known good values apart from the evicted entries', async () => {
+      const cache = new TtlCache(new MemoryCacheBackend(2));
+      await cache.set('games:en', ['a']);
+      await cache.setLastKnownGood('games:en', ['a']);
+      await cache.set('games:fi', ['b']);
+      await cache.set('games:sv', ['c']);
+
+      expect(await cache.get('games:en')).toBeNull();
+      expect(await cache.getLastKnownGood('games:en')).toEqual(['a']);
+      expect(await cache.size()).toBe(2);
+    });
+  });
+
+  describe('FileSystemCacheBackend', () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = await mkdtemp(path.join(tmpdir(), 'cache-test-'));
+    });
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', async () => {
+      await new TtlCache(new FileSystemCacheBackend(directory)).set('games:en', { games: [1, 2] });
+      const cache = new TtlCache(new FileSystemCacheBackend(directory));
+
+      expect(await cache.get('games:en')).toEqual({ games: [1, 2] });
+      expect(await cache.get('games:fi')).toBeNull();
+      expect(await cache.size()).toBe(1);
+    });
+
+    it('should drop expired entries', async () => {
+      const cache = new TtlCache(new FileSystemCacheBackend(directory));
+      await cache.set('expired', 1, -1);
+      await cache.set('fresh', 2);
+      await cache.clearExpired();
+
+      expect(await cache.size()).toBe(1);
+      expect(await cache.get('fresh')).toBe(2);
+    });
+  });
+});
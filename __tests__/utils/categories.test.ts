@@ -0,0 +1,43 @@
+/**
+ * Unit tests for category utilities
+ */
+
+import { getCategoryEndpoint, getCategorySlug, isCategoryPath } from '@/utils/categories';
+
+describe('category utils', () => {
+  describe('getCategoryEndpoint', () => {
+    it('should tell tiles endpoints from page components', () => {
+      expect(getCategoryEndpoint('/en/games/tiles')).toBe('tiles');
+      expect(getCategoryEndpoint('/pages/fi/casino')).toBe('tiles'); // Lobby
+      expect(getCategoryEndpoint('/casino')).toBe('tiles');
+      expect(getCategoryEndpoint('/pages/fi/casino/new-games')).toBe('page');
+    });
+  });
+
+  describe('isCategoryPath', () => {
+    it('should accept the tiles endpoint and casino pages', () => {
+      expect(isCategoryPath('/en/games/tiles')).toBe(true);
+      expect(isCategoryPath('/pages/fi/casino')).toBe(true);
+      expect(isCategoryPath('/pages/fi/casino/new-games')).toBe(true);
+      expect(isCategoryPath('/pages/de/casino/live/Roulette')).toBe(true);
+    });
+
+    it('should reject other paths', () => {
+      expect(isCategoryPath('/en/config')).toBe(false);
+      expect(isCategoryPath('/en/games/tiles?pageSize=1000')).toBe(false);
+      expect(isCategoryPath('/pages/en/casino/../../config')).toBe(false);
+      expect(isCategoryPath('/pages/en/sports')).toBe(false);
+    });
+  });
+
+  describe('getCategorySlug', () => {
+    it('should derive the same slug for every market', () => {
+      expect(getCategorySlug('/casino/new-games')).toBe('new-games');
+      expect(getCategorySlug('/pages/en/casino/new-games')).toBe('new-games');
+      expect(getCategorySlug('/pages/fi/casino/new-games')).toBe('new-games');
+      expect(getCategorySlug('/pages/de/casino/live/Roulette')).toBe('live-roulette');
+      expect(getCategorySlug('/casino')).toBe('casino');
+      expect(getCategorySlug('/')).toBe('');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for the upstream circuit breaker
+ */
+
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  getUpstreamCircuit,
+  upstreamCircuits,
+} from '@/utils/circuitBreaker';
+
+describe('CircuitBreaker', () => {
+  const fail = () => Promise.reject(new Error('Network error'));
+
+  const openCircuit = async (circuit: CircuitBreaker) => {
+    await expect(circuit.execute(fail)).rejects.toThrow('Network error');
+    await expect(circuit.execute(fail)).rejects.toThrow('Network error');
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const circuit = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+    const fn = jest.fn().mockResolvedValue('games');
+
+    await openCircuit(circuit);
+    const error = await circuit.execute(fn).catch((e: unknown) => e);
+
+    expect(fn).not.toHaveBeenCalled();
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfterMs).toBe(1000);
+    expect(circuit.getState()).toBe('open');
+  });
+
+  it('should reset the failure count after a success', async () => {
+    const circuit = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+
+    await expect(circuit.execute(fail)).rejects.toThrow();
+    await circuit.execute(() => Promise.resolve('games'));
+    await expect(circuit.execute(fail)).rejects.toThrow();
+
+    expect(circuit.getState()).toBe('closed');
+  });
+
+  it('should count failing results without throwing them', async () => {
+    const circuit = new CircuitBreaker('test', { failureThreshold: 1, resetTimeoutMs: 1000 });
+
+    const result = await circuit.execute(() => Promise.resolve(503), (status) => status >= 500);
+
+    expect(result).toBe(503);
+    expect(circuit.getState()).toBe('open');
+  });
+
+  it('should let one trial call through after the reset timeout', async () => {
+    const circuit = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+    await openCircuit(circuit);
+    jest.setSystemTime(1000);
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = circuit.execute(() => new Promise<string>((resolve) => (finishTrial = resolve)));
+
+    expect(circuit.getState()).toBe('half-open');
+    await expect(circuit.execute(() => Promise.resolve('games'))).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+
+    finishTrial('games');
+    await expect(trial).resolves.toBe('games');
+    expect(circuit.getSnapshot()).toMatchObject({ state: 'closed', failures: 0, openedAt: null });
+  });
+
+  it('should open again when the trial call fails', async () => {
+    const circuit = new CircuitBreaker('test', { failureThreshold: 2, resetTimeoutMs: 1000 });
+    await openCircuit(circuit);
+    jest.setSystemTime(1000);
+
+    await expect(circuit.execute(fail)).rejects.toThrow('Network error');
+
+    expect(circuit.getSnapshot()).toMatchObject({ state: 'open', retryAfterMs: 1000 });
+  });
+
+  describe('getUpstreamCircuit', () => {
+    it('should keep one circuit per upstream endpoint kind', () => {
+      expect(getUpstreamCircuit('/fi/config')).toBe(upstreamCircuits.config);
+      expect(getUpstreamCircuit('/en/games/tiles?pageNumber=2')).toBe(upstreamCircuits.tiles);
+      expect(getUpstreamCircuit('/pages/en/casino')).toBe(upstreamCircuits.tiles); // Lobby
+      expect(getUpstreamCircuit('/pages/en/casino/new-games')).toBe(upstreamCircuits.page);
+    });
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Unit tests for games grid layout helpers
+ */
+
+import { GAME_TILE_SIZES, getGridColumns } from '@/utils/grid';
+
+describe('grid utils', () => {
+  describe('getGridColumns', () => {
+    it('should use the column count of the matching breakpoint', () => {
+      expect(getGridColumns(375)).toBe(2);
+      expect(getGridColumns(768)).toBe(2);
+      expect(getGridColumns(1024)).toBe(3);
+      expect(getGridColumns(1200)).toBe(3);
+      expect(getGridColumns(1440)).toBe(4);
+    });
+  });
+
+  describe('GAME_TILE_SIZES', () => {
+    it('should give each breakpoint one column share of the viewport', () => {
+      expect(GAME_TILE_SIZES).toBe('(max-width: 768px) 50vw, (max-width: 1200px) 33vw, 25vw');
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for lobby query string helpers
+ */
+
+import { buildLobbyQuery, parseLobbyQuery } from '@/utils/lobbyQuery';
+
+describe('lobbyQuery', () => {
+  describe('parseLobbyQuery', () => {
+    it('should parse category, search and page from URLSearchParams', () => {
+      const query = parseLobbyQuery(new URLSearchParams('category=new-games&search=book&page=3'));
+
+      expect(query).toEqual({ category: 'new-games', search: 'book', page: 3 });
+    });
+
+    it('should parse a server-side searchParams object', () => {
+      const query = parseLobbyQuery({ search: ['slots', 'ignored'], page: '2' });
+
+      expect(query).toEqual({ category: undefined, search: 'slots', page: 2 });
+    });
+
+    it('should fall back to defaults for missing or invalid values', () => {
+      expect(parseLobbyQuery({ page: 'abc' })).toEqual({ category: undefined, search: '', page: 1 });
+      expect(parseLobbyQuery({ page: '-4' }).page).toBe(1);
+    });
+  });
+
+  describe('buildLobbyQuery', () => {
+    it('should omit default values', () => {
+      expect(buildLobbyQuery({ category: 'lobby', search: '  ', page: 1 })).toBe('category=lobby');
+    });
+
+    it('should preserve unrelated params and replace lobby params', () => {
+      const base = new URLSearchParams('utm_source=mail&page=4&search=old');
+
+      expect(buildLobbyQuery({ category: 'live', search: 'roulette', page: 1 }, base)).toBe(
+        'utm_source=mail&search=roulette&category=live'
+      );
+    });
+  });
+});
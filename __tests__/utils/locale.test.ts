@@ -0,0 +1,18 @@
+/**
+ * Unit tests for locale helpers
+ */
+
+import { negotiateLocale } from '@/utils/locale';
+
+describe('negotiateLocale', () => {
+  it('should pick the supported locale with the highest quality', () => {
+    expect(negotiateLocale('en;q=0.5,fi-FI,fi;q=0.9')).toBe('fi');
+    expect(negotiateLocale('nb-NO,en;q=0.8')).toBe('no');
+    expect(negotiateLocale(null)).toBe('en');
+  });
+
+  it('should skip languages the user refuses with q=0', () => {
+    expect(negotiateLocale('fi;q=0,sv;q=0.5')).toBe('sv');
+    expect(negotiateLocale('de; q=0')).toBe('en');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * @jest-environment node
+ *
+ * Unit tests for API rate limiting (server only)
+ */
+
+import { RateLimiter, getClientIp, getRateLimitHeaders } from '@/utils/rateLimit';
+
+const headers = (values: Record<string, string>) =>
+  ({ get: (name: string) => values[name.toLowerCase()] ?? null }) as Headers;
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should allow a burst up to the limit', () => {
+    const limiter = new RateLimiter({ limit: 3, windowMs: 3000 });
+
+    const results = [1, 2, 3, 4].map(() => limiter.consume('client'));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+  });
+
+  it('should tell when the next request and the full limit are available', () => {
+    const limiter = new RateLimiter({ limit: 3, windowMs: 3000 });
+    [1, 2, 3].forEach(() => limiter.consume('client'));
+
+    const rejected = limiter.consume('client');
+
+    expect(rejected.retryAfterMs).toBe(1000);
+    expect(rejected.resetMs).toBe(3000);
+  });
+
+  it('should refill evenly over the window', () => {
+    const limiter = new RateLimiter({ limit: 3, windowMs: 3000 });
+    [1, 2, 3].forEach(() => limiter.consume('client'));
+
+    jest.setSystemTime(999);
+    expect(limiter.consume('client').allowed).toBe(false);
+    jest.setSystemTime(1000);
+    expect(limiter.consume('client').allowed).toBe(true);
+    expect(limiter.consume('client').allowed).toBe(false);
+  });
+
+  it('should keep clients apart', () => {
+    const limiter = new RateLimiter({ limit: 1, windowMs: 1000 });
+
+    expect(limiter.consume('a').allowed).toBe(true);
+    expect(limiter.consume('b').allowed).toBe(true);
+    expect(limiter.consume('a').allowed).toBe(false);
+  });
+});
+
+describe('getClientIp', () => {
+  it('should use the address added by the trusted proxy', () => {
+    expect(getClientIp(headers({ 'x-forwarded-for': '6.6.6.6, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getClientIp(headers({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('should fall back to X-Real-IP', () => {
+    expect(getClientIp(headers({ 'x-real-ip': ' 203.0.113.7 ' }))).toBe('203.0.113.7');
+    expect(getClientIp(headers({}))).toBe('unknown');
+  });
+});
+
+describe('getRateLimitHeaders', () => {
+  it('should report the reset in whole seconds', () => {
+    expect(
+      getRateLimitHeaders({ allowed: true, limit: 60, remaining: 58, retryAfterMs: 0, resetMs: 1500 })
+    ).toEqual({
+      'X-RateLimit-Limit': '60',
+      'X-RateLimit-Remaining': '58',
+      'X-RateLimit-Reset': '2',
+    });
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for the retry policy
+ */
+
+import { HttpError, isRetryableError, parseRetryAfter, retryWithBackoff } from '@/utils/retry';
+
+describe('retry utils', () => {
+  const httpError = (status: number, retryAfter?: string) =>
+    new HttpError(`HTTP ${status}`, {
+      status,
+      headers: new Headers(retryAfter ? { 'Retry-After': retryAfter } : {}),
+    } as Response);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry network errors, 5xx and 429 only', () => {
+      expect(isRetryableError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(isRetryableError(httpError(503))).toBe(true);
+      expect(isRetryableError(httpError(429))).toBe(true);
+      expect(isRetryableError(httpError(404))).toBe(false);
+      expect(isRetryableError(new DOMException('Aborted', 'AbortError'))).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter(new Date(5000).toUTCString())).toBe(5000);
+      expect(parseRetryAfter('soon')).toBeNull();
+      expect(parseRetryAfter(null)).toBeNull();
+    });
+  });
+
+  describe('retryWithBackoff', () => {
+    it('should retry with full jitter until the call succeeds', async () => {
+      const fn = jest.fn().mockRejectedValueOnce(httpError(500)).mockResolvedValueOnce('games');
+      const onRetry = jest.fn();
+
+      const result = retryWithBackoff(fn, { initialDelay: 1000, onRetry });
+      await jest.advanceTimersByTimeAsync(499);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toBe('games');
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(HttpError));
+    });
+
+    it('should not retry client errors', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(404));
+
+      await expect(retryWithBackoff(fn)).rejects.toThrow('HTTP 404');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait as long as Retry-After asks', async () => {
+      const fn = jest.fn().mockRejectedValueOnce(httpError(429, '3')).mockResolvedValueOnce('games');
+
+      const result = retryWithBackoff(fn, { initialDelay: 100 });
+      await jest.advanceTimersByTimeAsync(2999);
+      expect(fn).toHaveBeenCalledTimes(1);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toBe('games');
+    });
+
+    it('should give up once the time budget would be exceeded', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(429, '30'));
+
+      await expect(retryWithBackoff(fn, { maxElapsedTime: 10000 })).rejects.toThrow('HTTP 429');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting and retrying once aborted', async () => {
+      const controller = new AbortController();
+      const fn = jest.fn().mockRejectedValue(httpError(503));
+
+      const result = retryWithBackoff(fn, { signal: controller.signal });
+      const assertion = expect(result).rejects.toMatchObject({ name: 'AbortError' });
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      await assertion;
+      await jest.advanceTimersByTimeAsync(60000);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep decorrelated delays between the initial delay and 3x the previous one', async () => {
+      const fn = jest
+        .fn()
+        .mockRejectedValueOnce(httpError(500))
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce('games');
+
+      const result = retryWithBackoff(fn, { initialDelay: 1000, jitter: 'decorrelated' });
+      await jest.advanceTimersByTimeAsync(2000); // 1000 + (3000 - 1000) * 0.5
+      expect(fn).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(4000); // 1000 + (6000 - 1000) * 0.5 = 3500
+
+      await expect(result).resolves.toBe('games');
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for client-side game search
+ */
+
+import { getSearchSuggestions, normalizeSearchText, searchGames, tokenizeQuery } from '@/utils/search';
+import type { Category, GameTile } from '@/types';
+
+describe('search utils', () => {
+  const games: GameTile[] = [
+    { id: '1', name: 'Book of Dead', thumbnail: '', provider: "Play'n GO", slug: 'book-of-dead' },
+    { id: '2', name: 'Starburst', thumbnail: '', provider: 'NetEnt', gameText: 'Classic cosmic slot' },
+    { id: '3', name: 'Dead or Alive', thumbnail: '', provider: 'NetEnt' },
+    { id: '4', name: 'Ölkärpänen', thumbnail: '', provider: 'Kalamba' },
+  ];
+
+  const ids = (query: string) => searchGames(games, query).map((result) => result.game.id);
+
+  describe('normalizeSearchText', () => {
+    it('should lowercase and strip diacritics', () => {
+      expect(normalizeSearchText('Ölkärpänen')).toBe('olkarpanen');
+      expect(normalizeSearchText('Søren Æble')).toBe('soren aeble');
+    });
+  });
+
+  describe('tokenizeQuery', () => {
+    it('should split on whitespace and punctuation', () => {
+      expect(tokenizeQuery("  Play'n  GO ")).toEqual(['play', 'n', 'go']);
+    });
+  });
+
+  describe('searchGames', () => {
+    it('should ignore accents in the query and the game', () => {
+      expect(ids('olkarpanen')).toEqual(['4']);
+      expect(ids('ölk')).toEqual(['4']);
+    });
+
+    it('should match provider, slug and description', () => {
+      expect(ids('netent')).toEqual(['2', '3']);
+      expect(ids('cosmic')).toEqual(['2']);
+    });
+
+    it('should require every token to match', () => {
+      expect(ids('dead netent')).toEqual(['3']);
+    });
+
+    it('should tolerate typos in longer tokens', () => {
+      expect(ids('starbrust')).toEqual(['2']);
+      expect(ids('bok')).toEqual([]);
+    });
+
+    it('should rank names starting with the query first', () => {
+      expect(ids('dead')).toEqual(['3', '1']);
+    });
+
+    it('should return highlight ranges in the original text', () => {
+      const [result] = searchGames(games, 'karpa');
+
+      expect(result.highlights.name).toEqual([{ start: 2, end: 7 }]);
+      expect(games[3].name.slice(2, 7)).toBe('kärpä');
+    });
+
+    it('should merge overlapping highlight ranges', () => {
+      const [result] = searchGames(games, 'book boo');
+
+      expect(result.highlights.name).toEqual([{ start: 0, end: 4 }]);
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    const sources = {
+      games,
+      categories: [
+        { id: 'slots', slug: 'slots', name: 'Slots', getPage: '/en/games/tiles', endpoint: 'tiles' },
+        { id: 'live', slug: 'live', name: 'Live Casino', getPage: '/pages/en/casino/live', endpoint: 'page' },
+      ] as Category[],
+      recentSearches: ['netent', 'starburst', 'dead'],
+    };
+
+    it('should only suggest recent searches for an empty query', () => {
+      expect(getSearchSuggestions('', sources).map((s) => s.label)).toEqual([
+        'netent',
+        'starburst',
+        'dead',
+      ]);
+    });
+
+    it('should group recent searches, games, providers and categories', () => {
+      const suggestions = getSearchSuggestions('net', sources);
+
+      expect(suggestions.map((s) => [s.type, s.label])).toEqual([
+        ['recent', 'netent'],
+        ['game', 'Starburst'],
+        ['game', 'Dead or Alive'],
+        ['provider', 'NetEnt'],
+      ]);
+    });
+
+    it('should suggest matching categories', () => {
+      const suggestions = getSearchSuggestions('live', sources);
+
+      expect(suggestions.filter((s) => s.type === 'category').map((s) => s.label)).toEqual([
+        'Live Casino',
+      ]);
+    });
+  });
+});
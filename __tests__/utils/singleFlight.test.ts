@@ -0,0 +1,54 @@
+/**
+ * Unit tests for request coalescing
+ */
+
+import { SingleFlight } from '@/utils/singleFlight';
+
+describe('SingleFlight', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should share one call between concurrent callers', async () => {
+    const flights = new SingleFlight();
+    const fn = jest.fn().mockResolvedValue('games');
+
+    const results = await Promise.all([flights.run('key', fn), flights.run('key', fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(['games', 'games']);
+    expect(flights.size()).toBe(0);
+  });
+
+  it('should keep calls with different keys apart', async () => {
+    const flights = new SingleFlight();
+    const fn = jest.fn().mockResolvedValue('games');
+
+    await Promise.all([flights.run('a', fn), flights.run('b', fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reuse a result for the given time only', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const flights = new SingleFlight();
+    const fn = jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+    expect(await flights.run('key', fn, 1000)).toBe(1);
+    jest.setSystemTime(500);
+    expect(await flights.run('key', fn, 1000)).toBe(1);
+    jest.setSystemTime(1500);
+    expect(await flights.run('key', fn, 1000)).toBe(2);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share failures with concurrent callers but retry afterwards', async () => {
+    const flights = new SingleFlight();
+    const fn = jest.fn().mockRejectedValueOnce(new Error('Upstream down')).mockResolvedValueOnce('games');
+
+    const results = await Promise.allSettled([flights.run('key', fn, 1000), flights.run('key', fn, 1000)]);
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    await expect(flights.run('key', fn, 1000)).resolves.toBe('games');
+  });
+});
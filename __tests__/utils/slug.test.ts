@@ -0,0 +1,19 @@
+/**
+ * Unit tests for the slug helper
+ */
+
+import { getCategorySlug } from '@/utils/categories';
+import { getProviderSlug } from '@/utils/games';
+import { slugify } from '@/utils/slug';
+
+describe('slugify', () => {
+  it('should turn display names into URL slugs', () => {
+    expect(slugify('New Games!')).toBe('new-games');
+    expect(slugify("Play'n GO")).toBe('play-n-go');
+    expect(slugify('Jeux à gogo')).toBe('jeux-a-gogo');
+  });
+
+  it('should give categories and providers of the same name the same slug', () => {
+    expect(getCategorySlug('/casino/Red Tiger')).toBe(getProviderSlug({ provider: 'Red Tiger' }));
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Game Detail Page
+ * Server-side rendered page for a single game, resolved by slug or platformId
+ */
+
+import { cache } from 'react';
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { fetchGameBySlug } from '@/services/api';
+import type { GameTile, Locale } from '@/types';
+import { logger } from '@/utils/logger';
+import { resolveLocale, toOpenGraphLocale } from '@/utils/locale';
+import { getGamePath } from '@/utils/games';
+import { GAME_THUMBNAIL_BLUR } from '@/utils/blur';
+import { GameStructuredData } from '@/components/StructuredData';
+import styles from './page.module.scss';
+
+interface GamePageProps {
+  params: Promise<{ locale: string; slug: string }>;
+}
+
+// Fetch the game - null only if the search has no matching game; upstream failures are
+// logged and rethrown, so an outage serves an error instead of a 404 (and noindex metadata)
+// Cached per request, so generateMetadata and the page share one upstream search
+const getGame = cache(async (slug: string, locale: Locale): Promise<GameTile | null> => {
+  try {
+    return await fetchGameBySlug(decodeURIComponent(slug), locale);
+  } catch (error) {
+    logger.error(
+      'Failed to fetch game',
+      error instanceof Error ? error : new Error(String(error)),
+      { component: 'GamePage', action: 'fetchGameBySlug', slug, locale }
+    );
+    throw error;
+  }
+});
+
+// Format bet size range, e.g. "0.10 – 100.00"
+function formatBetSize(betSize: GameTile['betSize']): string | null {
+  if (!betSize || (betSize.min === undefined && betSize.max === undefined)) {
+    return null;
+  }
+  const format = (value: number) => value.toFixed(2);
+  if (betSize.min !== undefined && betSize.max !== undefined) {
+    return `${format(betSize.min)} – ${format(betSize.max)}`;
+  }
+  return betSize.min !== undefined
+    ? `from ${format(betSize.min)}`
+    : `up to ${format(betSize.max as number)}`;
+}
+
+export async function generateMetadata({ params }: GamePageProps): Promise<Metadata> {
+  const { slug, locale: localeParam } = await params;
+  const locale = resolveLocale(localeParam);
+  const game = await getGame(slug, locale);
+
+  if (!game) {
+    return {
+      title: 'Game not found',
+      robots: { index: false, follow: true },
+    };
+  }
+
+  const description = game.gameText ||
+    `Play ${game.name}${game.provider ? ` by ${game.provider}` : ''} at Pika Casino.`;
+  const images = game.thumbnail ? [{ url: game.thumbnail, alt: game.name }] : undefined;
+
+  return {
+    title: game.name,
+    description,
+    alternates: {
+      canonical: getGamePath(game, locale),
+    },
+    openGraph: {
+      type: 'website',
+      url: getGamePath(game, locale),
+      locale: toOpenGraphLocale(locale),
+      title: game.name,
+      description,
+      images,
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title: game.name,
+      description,
+      images: game.thumbnail ? [game.thumbnail] : undefined,
+    },
+  };
+}
+
+export default async function GamePage({ params }: GamePageProps) {
+  const { slug, locale: localeParam } = await params;
+  const locale = resolveLocale(localeParam);
+  const game = await getGame(slug, locale);
+
+  if (!game) {
+    notFound();
+  }
+
+  const betSize = formatBetSize(game.betSize);
+  const providerLogoSrc = game.providerLogo?.original?.src || game.providerLogo?.original?.url;
+  const hasValidThumbnail =
+    game.thumbnail && (game.thumbnail.startsWith('http') || game.thumbnail.startsWith('/'));
+
+  return (
+    <div className={styles.gamePage}>
+      <GameStructuredData game={game} locale={locale} />
+
+      <header className={styles.header}>
+        <Link href={`/${locale}`} className={styles.backLink}>
+          ‹ Back to lobby
+        </Link>
+      </header>
+
+      <main className={styles.main}>
+        <div className={styles.thumbnail}>
+          {hasValidThumbnail ? (
+            <Image
+              src={game.thumbnail}
+              alt={game.name}
+              fill
+              sizes="(max-width: 768px) 100vw, 50vw"
+              className={styles.thumbnailImage}
+              priority
+              placeholder="blur"
+              blurDataURL={GAME_THUMBNAIL_BLUR}
+            />
+          ) : (
+            <div className={styles.thumbnailPlaceholder}>{game.name[0] || '?'}</div>
+          )}
+        </div>
+
+        <section className={styles.details} aria-label="Game details">
+          <h1 className={styles.title}>
+            {game.name}
+            {game.isLiveGame && <span className={styles.liveBadge}>Live</span>}
+          </h1>
+
+          {game.gameText && game.gameText !== game.name && (
+            <p className={styles.description}>{game.gameText}</p>
+          )}
+
+          <dl className={styles.facts}>
+            {game.provider && (
+              <>
+                <dt>Provider</dt>
+                <dd className={styles.provider}>
+                  {providerLogoSrc && (
+                    <Image
+                      src={providerLogoSrc}
+                      alt={game.providerLogo?.alt || game.provider}
+                      width={game.providerLogo?.original?.metadata?.width || 80}
+                      height={game.providerLogo?.original?.metadata?.height || 32}
+                      className={styles.providerLogo}
+                    />
+                  )}
+                  <span>{game.provider}</span>
+                </dd>
+              </>
+            )}
+            {betSize && (
+              <>
+                <dt>Bet size</dt>
+                <dd>{betSize}</dd>
+              </>
+            )}
+            <dt>Type</dt>
+            <dd>{game.isLiveGame ? 'Live casino' : 'Casino game'}</dd>
+          </dl>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import type { Metadata } from "next";
+import { notFound } from "next/navigation";
 import { Geist, Inter } from "next/font/google";
-import ReduxProvider from "@/components/ReduxProvider";
 import ErrorBoundary from "@/components/ErrorBoundary";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import StructuredData from "@/components/StructuredData";
-import "./globals.css";
+import { SUPPORTED_LOCALES } from "@/constants";
+import { isSupportedLocale, toOpenGraphLocale } from "@/utils/locale";
+import "../globals.css";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -23,7 +26,7 @@ const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://pika-casino-lobby.v
 const siteName = 'Pika Casino';
 const siteDescription = 'Browse and search through our collection of casino games including slots, poker, blackjack, and roulette. Discover your favorite games and start playing today!';
 
-export const metadata: Metadata = {
+const baseMetadata: Metadata = {
   metadataBase: new URL(siteUrl),
   title: {
     default: `${siteName} - Games Lobby`,
@@ -52,7 +55,6 @@ export const metadata: Metadata = {
   },
   openGraph: {
     type: "website",
-    locale: "en_US",
     url: siteUrl,
     siteName,
     title: `${siteName} - Games Lobby`,
@@ -91,19 +93,61 @@ export const metadata: Metadata = {
   },
 };
 
-export default function RootLayout({
-  children,
-}: Readonly<{
+interface RootLayoutProps {
   children: React.ReactNode;
-}>) {
+  params: Promise<{ locale: string }>;
+}
+
+// Pre-render every supported market
+export function generateStaticParams() {
+  return SUPPORTED_LOCALES.map((locale) => ({ locale }));
+}
+
+export async function generateMetadata({
+  params,
+}: Pick<RootLayoutProps, "params">): Promise<Metadata> {
+  const { locale } = await params;
+  if (!isSupportedLocale(locale)) {
+    return baseMetadata;
+  }
+
+  return {
+    ...baseMetadata,
+    alternates: {
+      canonical: `/${locale}`,
+      languages: Object.fromEntries(
+        SUPPORTED_LOCALES.map((supportedLocale) => [supportedLocale, `/${supportedLocale}`])
+      ),
+    },
+    openGraph: {
+      ...baseMetadata.openGraph,
+      url: `${siteUrl}/${locale}`,
+      locale: toOpenGraphLocale(locale),
+      alternateLocale: SUPPORTED_LOCALES
+        .filter((supportedLocale) => supportedLocale !== locale)
+        .map(toOpenGraphLocale),
+    },
+  };
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<RootLayoutProps>) {
+  const { locale } = await params;
+  if (!isSupportedLocale(locale)) {
+    notFound();
+  }
+
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${geistSans.variable} ${inter.variable} antialiased`}
       >
-        <StructuredData />
+        <StructuredData locale={locale} />
+        <ServiceWorkerRegistration />
         <ErrorBoundary>
-          <ReduxProvider>{children}</ReduxProvider>
+          {children}
         </ErrorBoundary>
       </body>
     </html>
@@ -0,0 +1,141 @@
+/**
+ * Main Games Lobby Page
+ * Server-side rendered page that displays categories, search, and games list
+ * The first games page of the URL's view is fetched here, so the grid is part of the initial HTML
+ * With the home layout (LOBBY_LAYOUT) the landing view shows streamed category rails instead
+ */
+
+import { fetchConfig } from '@/services/api';
+import { makeStore, type AppDispatch, type PreloadedState } from '@/store/store';
+import { setCategories, setLocale, setSelectedCategory } from '@/store/slices/categoriesSlice';
+import { FAVORITES_CATEGORY } from '@/store/slices/favoritesSlice';
+import {
+  fetchSelectedCategoryGames,
+  setPageNumber,
+  setSearchQuery,
+} from '@/store/slices/gamesSlice';
+import type { Category, Locale } from '@/types';
+import { logger } from '@/utils/logger';
+import { resolveLocale } from '@/utils/locale';
+import { parseLobbyQuery, type LobbyQuery } from '@/utils/lobbyQuery';
+import { DEFAULT_SCROLL_MODE, LOBBY_LAYOUT } from '@/constants';
+import LobbyContent from '@/components/LobbyContent';
+import HomeRails from '@/components/HomeRails';
+import ReduxProvider from '@/components/ReduxProvider';
+import OfflineBanner from '@/components/OfflineBanner';
+import styles from './page.module.scss';
+
+interface HomeProps {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Build the lobby state for the URL's view: categories, selected category, search, page
+// and its games - the client store starts from it instead of fetching them again
+async function getInitialState(
+  locale: Locale,
+  categories: Category[],
+  query: LobbyQuery
+): Promise<PreloadedState> {
+  const store = makeStore();
+  store.dispatch(setLocale(locale));
+  if (categories.length === 0) {
+    // Client will fetch categories and apply the URL once they are loaded
+    return { categories: store.getState().categories };
+  }
+
+  store.dispatch(setCategories(categories));
+  const category = query.category === FAVORITES_CATEGORY.id
+    ? FAVORITES_CATEGORY
+    : categories.find((cat) => cat.id === query.category);
+  if (category) {
+    store.dispatch(setSelectedCategory(category));
+  }
+  if (query.search) {
+    store.dispatch(setSearchQuery(query.search));
+  }
+  // Pages are only part of the URL in paged mode
+  if (query.page > 1 && DEFAULT_SCROLL_MODE === 'paged') {
+    store.dispatch(setPageNumber(query.page));
+  }
+
+  // Searches of categories without upstream search go through /api/search - left to the client
+  const { selectedCategory } = store.getState().categories;
+  if (query.search && selectedCategory?.endpoint !== 'tiles') {
+    return store.getState();
+  }
+
+  const view = store.getState();
+  await (store.dispatch as AppDispatch)(fetchSelectedCategoryGames());
+  const state = store.getState();
+  if (state.games.error) {
+    logger.error('Failed to fetch initial games', new Error(state.games.error), {
+      component: 'Home',
+      action: 'fetchSelectedCategoryGames',
+      locale,
+      category: selectedCategory?.id,
+    });
+    // Continue without games - client will retry
+    return view;
+  }
+  return state;
+}
+
+// Games grid of the URL's view, rendered with its first page
+async function Lobby({ locale, query }: { locale: Locale; query: LobbyQuery }) {
+  // Server-side fetch of categories for initial render (SSR)
+  let initialCategories: Category[] = [];
+  try {
+    initialCategories = await fetchConfig(locale);
+  } catch (error) {
+    logger.error(
+      'Failed to fetch initial categories',
+      error instanceof Error ? error : new Error(String(error)),
+      { component: 'Home', action: 'fetchConfig', locale }
+    );
+    // Continue with empty categories - client will retry
+  }
+
+  const initialState = await getInitialState(locale, initialCategories, query);
+
+  return <LobbyContent locale={locale} initialState={initialState} />;
+}
+
+export default async function Home({ params, searchParams }: HomeProps) {
+  // Unsupported locales are rejected by the layout
+  const locale = resolveLocale((await params).locale);
+  // Category, search and page from the URL (deep links, refreshes)
+  const initialQuery = parseLobbyQuery(await searchParams);
+
+  // Home layout: the landing view (no category, search or page) shows one rail per category,
+  // each linking to the full category view
+  const showHome =
+    LOBBY_LAYOUT === 'home' && !initialQuery.category && !initialQuery.search && initialQuery.page === 1;
+
+  return (
+    <div className={styles.lobby}>
+      <header className={styles.header}>
+        <div className={styles.logo}>Pikacasino</div>
+        <div className={styles.headerContent}>
+          <h1 className={styles.title}>Pika Casino Games Lobby</h1>
+          <p className={styles.subtitle}>
+            Discover and play your favorite casino games
+          </p>
+        </div>
+      </header>
+
+      <OfflineBanner />
+
+      <main className={styles.main}>
+        {showHome ? (
+          // Game tiles use the store (favorites, recently played)
+          <ReduxProvider locale={locale}>
+            <HomeRails locale={locale} />
+          </ReduxProvider>
+        ) : (
+          <Lobby locale={locale} query={initialQuery} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,90 +1,29 @@
 /**
  * Next.js API Route for fetching config
  * This route acts as a proxy to avoid CORS issues
- * Includes rate limiting and caching
+ * Includes rate limiting, caching (stale-while-revalidate) and a circuit breaker
+ * that serves the last known good config while the upstream is down (see services/upstreamConfig)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { cache, rateLimiter } from '@/utils/cache';
+import { getClientIp, getRateLimitHeaders, rateLimitExceeded, rateLimiters } from '@/utils/rateLimit';
 import { logger } from '@/utils/logger';
-
-const API_BASE_URL = 'https://casino.api.pikakasino.com/v1/pika';
-const CACHE_TTL = 3600000; // 1 hour cache (config changes rarely)
-const RATE_LIMIT_REQUESTS = 100; // 100 requests per minute
+import { resolveLocale } from '@/utils/locale';
+import { getConfig, toConfigResponse } from '@/services/upstreamConfig';
 
 export async function GET(request: NextRequest) {
-  // Rate limiting
-  const clientId = request.headers.get('x-forwarded-for') || 
-                   request.headers.get('x-real-ip') || 
-                   'unknown';
-  
-  try {
-    
-    if (!rateLimiter.isAllowed(clientId)) {
-      return NextResponse.json(
-        { 
-          error: 'Too many requests',
-          message: 'Rate limit exceeded. Please try again later.',
-        },
-        { 
-          status: 429,
-          headers: {
-            'Retry-After': '60',
-            'X-RateLimit-Limit': String(RATE_LIMIT_REQUESTS),
-            'X-RateLimit-Remaining': String(rateLimiter.getRemaining(clientId)),
-          },
-        }
-      );
-    }
-
-    // Check cache first
-    const cacheKey = 'config:en';
-    const cachedData = cache.get<unknown>(cacheKey);
-    if (cachedData) {
-      return NextResponse.json(cachedData, {
-        headers: {
-          'X-Cache': 'HIT',
-          'X-RateLimit-Limit': String(RATE_LIMIT_REQUESTS),
-          'X-RateLimit-Remaining': String(rateLimiter.getRemaining(clientId)),
-        },
-      });
-    }
+  // Rate limiting per client IP (behind trusted proxies)
+  const clientId = getClientIp(request.headers);
 
-    const url = `${API_BASE_URL}/en/config`;
-
-    const response = await fetch(url, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0',
-      },
-      next: { revalidate: 3600 }, // Revalidate every hour
-    });
-
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: `Failed to fetch config: ${response.statusText}` },
-        { 
-          status: response.status,
-          headers: {
-            'X-RateLimit-Limit': String(RATE_LIMIT_REQUESTS),
-            'X-RateLimit-Remaining': String(rateLimiter.getRemaining(clientId)),
-          },
-        }
-      );
+  try {
+    const rateLimit = rateLimiters.config.consume(clientId);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit);
     }
 
-    const data = await response.json();
-    
-    // Cache the response
-    cache.set(cacheKey, data, CACHE_TTL);
-
-    return NextResponse.json(data, {
-      headers: {
-        'X-Cache': 'MISS',
-        'X-RateLimit-Limit': String(RATE_LIMIT_REQUESTS),
-        'X-RateLimit-Remaining': String(rateLimiter.getRemaining(clientId)),
-      },
-    });
+    const locale = resolveLocale(request.nextUrl.searchParams.get('locale'));
+    const result = await getConfig(locale);
+    return toConfigResponse(result, getRateLimitHeaders(rateLimit));
   } catch (error) {
     logger.error(
       'API route error',
@@ -97,4 +36,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -5,6 +5,8 @@
  */
 
 import { NextResponse } from 'next/server';
+import { API_BASE_URL } from '@/constants';
+import { upstreamCircuits, type CircuitSnapshot } from '@/utils/circuitBreaker';
 
 interface HealthStatus {
   status: 'healthy' | 'degraded' | 'unhealthy';
@@ -16,6 +18,7 @@ interface HealthStatus {
     api: 'ok' | 'degraded' | 'error';
     cache: 'ok' | 'degraded' | 'error';
   };
+  circuits: CircuitSnapshot[];
 }
 
 const startTime = Date.now();
@@ -27,26 +30,31 @@ export async function GET() {
     const environment = process.env.NODE_ENV || 'development';
 
     // Check API availability (optional - can be removed if not needed)
-    let apiStatus: 'ok' | 'degraded' | 'error' = 'ok';
-    try {
-      // Quick check to external API
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 2000);
-      
-      const response = await fetch('https://casino.api.pikakasino.com/v1/pika/en/config', {
-        signal: controller.signal,
-        headers: { 'Accept': 'application/json' },
-      }).catch(() => null);
-      
-      clearTimeout(timeoutId);
-      
-      if (!response) {
+    // While a circuit is open the API routes serve last known good data - don't probe the upstream
+    const circuits = Object.values(upstreamCircuits).map((circuit) => circuit.getSnapshot());
+    let apiStatus: 'ok' | 'degraded' | 'error' = 'degraded';
+    if (circuits.every((circuit) => circuit.state !== 'open')) {
+      apiStatus = 'ok';
+      try {
+        // Quick check to external API
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), 2000);
+        
+        const response = await fetch(`${API_BASE_URL}/en/config`, {
+          signal: controller.signal,
+          headers: { 'Accept': 'application/json' },
+        }).catch(() => null);
+        
+        clearTimeout(timeoutId);
+        
+        if (!response) {
+          apiStatus = 'error';
+        } else if (!response.ok) {
+          apiStatus = 'degraded';
+        }
+      } catch {
         apiStatus = 'error';
-      } else if (!response.ok) {
-        apiStatus = 'degraded';
       }
-    } catch {
-      apiStatus = 'error';
     }
 
     // Check cache status (always ok for in-memory cache)
@@ -74,6 +82,7 @@ export async function GET() {
       version,
       environment,
       checks,
+      circuits,
     };
 
     // Return appropriate HTTP status code
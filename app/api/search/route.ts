@@ -0,0 +1,89 @@
+/**
+ * Next.js API Route for searching the games of a category
+ * The upstream only searches /{locale}/games/tiles - this route searches
+ * a cached index of any category, with correct totals and pagination
+ * Includes rate limiting
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, getRateLimitHeaders, rateLimitExceeded, rateLimiters } from '@/utils/rateLimit';
+import { logger } from '@/utils/logger';
+import { getLocaleFromPath, localizePath, resolveLocale } from '@/utils/locale';
+import { searchCategoryIndex } from '@/services/searchIndex';
+import { isCategoryPath } from '@/utils/categories';
+import { CircuitOpenError } from '@/utils/circuitBreaker';
+import { INITIAL_PAGE_SIZE, MAX_PAGE_SIZE } from '@/constants';
+
+// Positive integer query parameter, or the fallback
+const parsePositiveInt = (value: string | null, fallback: number): number => {
+  const parsed = Number.parseInt(value || '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export async function GET(request: NextRequest) {
+  // Rate limiting per client IP (behind trusted proxies)
+  const clientId = getClientIp(request.headers);
+
+  try {
+    const rateLimit = rateLimiters.search.consume(clientId);
+    if (!rateLimit.allowed) {
+      return rateLimitExceeded(rateLimit);
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const category = searchParams.get('category');
+    const search = searchParams.get('search') || '';
+    // Locale from query, or from the category path itself (e.g. "/pages/fi/casino/new-games")
+    const locale = resolveLocale(searchParams.get('locale') || getLocaleFromPath(category));
+    const pageNumber = parsePositiveInt(searchParams.get('pageNumber'), 1);
+    const pageSize = Math.min(parsePositiveInt(searchParams.get('pageSize'), INITIAL_PAGE_SIZE), MAX_PAGE_SIZE);
+    const providers = (searchParams.get('providers') || '').split(',').filter(Boolean);
+
+    // Only category paths can be indexed - every distinct path is a cache entry
+    // and up to MAX_INDEX_PAGES upstream requests
+    if (category && !isCategoryPath(category)) {
+      return NextResponse.json(
+        { error: 'category must be a category path, e.g. "/pages/en/casino/new-games"' },
+        { status: 400 }
+      );
+    }
+    const categoryPath = localizePath(category || `/${locale}/games/tiles`, locale);
+
+    const { degraded, ...data } = await searchCategoryIndex({
+      categoryPath,
+      locale,
+      search,
+      pageNumber,
+      pageSize,
+      providers,
+    });
+
+    return NextResponse.json(data, {
+      headers: {
+        // Searched the last known good index, the upstream is down
+        ...(degraded && { 'X-Degraded': 'true' }),
+        ...getRateLimitHeaders(rateLimit),
+      },
+    });
+  } catch (error) {
+    // Upstream down and no index to fall back to
+    if (error instanceof CircuitOpenError) {
+      return NextResponse.json(
+        { error: 'Search is temporarily unavailable' },
+        {
+          status: 503,
+          headers: { 'Retry-After': String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))) },
+        }
+      );
+    }
+    logger.error(
+      'API route error',
+      error instanceof Error ? error : new Error(String(error)),
+      { route: '/api/search', clientId }
+    );
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
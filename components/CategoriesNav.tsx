@@ -8,22 +8,26 @@
 import { useEffect, useState, useCallback, useRef, memo } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
 import { fetchCategories, setSelectedCategory } from '@/store/slices/categoriesSlice';
+import { prefetchGamesByCategory } from '@/store/slices/gamesSlice';
 import {
   selectCategoriesWithSelection,
   selectCategoriesLoading,
   selectCategoriesError,
+  selectNavCategories,
 } from '@/store/selectors';
 import { analytics } from '@/utils/analytics';
-import { INITIAL_LOADER_MIN_TIME } from '@/constants';
+import { INITIAL_LOADER_MIN_TIME, INITIAL_PAGE_SIZE } from '@/constants';
 import styles from './CategoriesNav.module.scss';
 
 function CategoriesNav() {
   const dispatch = useAppDispatch();
   
   // Use memoized selectors
-  const { categories: items, selectedCategory, hasCategories } = useAppSelector(
+  const { categories, selectedCategory, hasCategories } = useAppSelector(
     selectCategoriesWithSelection
   );
+  // Categories plus the virtual Favorites category
+  const items = useAppSelector(selectNavCategories);
   const loading = useAppSelector(selectCategoriesLoading);
   const error = useAppSelector(selectCategoriesError);
   
@@ -41,10 +45,10 @@ function CategoriesNav() {
   useEffect(() => {
     // Fetch categories on mount only if not already loaded
     // This ensures we don't fetch if categories were pre-populated from SSR
-    if (items.length === 0 && !loading) {
+    if (categories.length === 0 && !loading) {
       dispatch(fetchCategories());
     }
-  }, [dispatch, items.length, loading]);
+  }, [dispatch, categories.length, loading]);
 
   const handleCategoryClick = useCallback((category: typeof items[0]) => {
     dispatch(setSelectedCategory(category));
@@ -55,6 +59,21 @@ function CategoriesNav() {
     }
   }, [dispatch]);
 
+  // Warm the first page of a category the user is about to open
+  // Same params GamesList fetches with after the switch (page 1, providers cleared)
+  const handleCategoryPrefetch = useCallback((category: typeof items[0]) => {
+    if (category.endpoint === 'store' || category.id === selectedCategory?.id) {
+      return;
+    }
+    dispatch(
+      prefetchGamesByCategory(category.getPage, {
+        pageNumber: 1,
+        pageSize: INITIAL_PAGE_SIZE,
+        providers: [],
+      })
+    );
+  }, [dispatch, selectedCategory?.id]);
+
   // Keyboard navigation
   const buttonRefs = useRef<(HTMLButtonElement | null)[]>([]);
   const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
@@ -131,6 +150,8 @@ function CategoriesNav() {
             }`}
             onClick={() => handleCategoryClick(category)}
             onKeyDown={(e) => handleKeyDown(e, index)}
+            onMouseEnter={() => handleCategoryPrefetch(category)}
+            onFocus={() => handleCategoryPrefetch(category)}
             aria-selected={selectedCategory?.id === category.id}
             aria-label={`Filter games by ${category.name} category`}
             role="tab"
@@ -0,0 +1,54 @@
+/**
+ * Continue Playing Component
+ * Horizontal rail of the games the user opened most recently
+ */
+
+'use client';
+
+import { memo, useCallback } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { clearRecentlyPlayed } from '@/store/slices/recentlyPlayedSlice';
+import { selectRecentlyPlayedGames } from '@/store/selectors';
+import GameTile from './GameTile';
+import styles from './ContinuePlaying.module.scss';
+
+function ContinuePlaying() {
+  const dispatch = useAppDispatch();
+  const games = useAppSelector(selectRecentlyPlayedGames);
+
+  const handleClear = useCallback(() => {
+    dispatch(clearRecentlyPlayed());
+  }, [dispatch]);
+
+  // History is only known after hydration from localStorage
+  if (games.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className={styles.continuePlaying} aria-labelledby="continue-playing-title">
+      <div className={styles.header}>
+        <h2 id="continue-playing-title" className={styles.title}>
+          Continue playing
+        </h2>
+        <button
+          type="button"
+          className={styles.clearButton}
+          onClick={handleClear}
+        >
+          Clear history
+        </button>
+      </div>
+
+      <div className={styles.rail}>
+        {games.map((game, index) => (
+          <div key={game.id} className={styles.railItem}>
+            <GameTile game={game} index={index} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export default memo(ContinuePlaying);
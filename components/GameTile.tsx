@@ -1,23 +1,60 @@
 /**
  * Game Tile Component
  * Memoized component for individual game tile
+ * The tile is a link to the game page; the favorite toggle is a sibling of the link,
+ * so no interactive control is nested inside another
  */
 
 'use client';
 
 import { memo, useCallback } from 'react';
 import Image from 'next/image';
-import type { GameTile as GameTileType } from '@/types';
+import Link from 'next/link';
+import type { GameTile as GameTileType, SearchHighlights, TextRange } from '@/types';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { selectFavoriteIds, selectLocale } from '@/store/selectors';
+import { toggleFavorite } from '@/store/slices/favoritesSlice';
+import { recordGamePlayed } from '@/store/slices/recentlyPlayedSlice';
 import { GAME_THUMBNAIL_BLUR } from '@/utils/blur';
 import { analytics } from '@/utils/analytics';
+import { getGamePath } from '@/utils/games';
+import { GAME_TILE_SIZES } from '@/utils/grid';
 import styles from './GamesList.module.scss';
 
 interface GameTileProps {
   game: GameTileType;
   index?: number;
+  highlights?: SearchHighlights; // Parts of the name and provider matching the search query
 }
 
-function GameTile({ game, index = 0 }: GameTileProps) {
+// Text with the given ranges in bold
+function HighlightedText({ text, ranges = [] }: { text: string; ranges?: readonly TextRange[] }) {
+  if (ranges.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  for (const { start, end } of ranges) {
+    if (start > position) {
+      parts.push(text.slice(position, start));
+    }
+    parts.push(
+      <strong key={start} className={styles.highlight}>
+        {text.slice(start, end)}
+      </strong>
+    );
+    position = end;
+  }
+  parts.push(text.slice(position));
+
+  return <>{parts}</>;
+}
+
+function GameTile({ game, index = 0, highlights }: GameTileProps) {
+  const dispatch = useAppDispatch();
+  const locale = useAppSelector(selectLocale);
+  const isFavorite = useAppSelector(selectFavoriteIds).has(game.id);
   const hasValidThumbnail = 
     game.thumbnail &&
     typeof game.thumbnail === 'string' &&
@@ -27,61 +64,71 @@ function GameTile({ game, index = 0 }: GameTileProps) {
   const shouldLoadEagerly = index < 8;
   const shouldHavePriority = index < 4;
 
+  // The link navigates - the click is only tracked and recorded
   const handleClick = useCallback(() => {
     // Track game click
     if (analytics) {
       analytics.trackGameClick(game.id, game.name);
     }
-    // In a real application, you would navigate to the game page here
-    // router.push(`/games/${game.id}`);
-  }, [game.id, game.name]);
+    dispatch(recordGamePlayed(game));
+  }, [dispatch, game]);
+
+  const handleFavoriteClick = useCallback(() => {
+    dispatch(toggleFavorite(game));
+
+    if (analytics) {
+      analytics.trackFavorite(game.id, game.name, !isFavorite);
+    }
+  }, [dispatch, game, isFavorite]);
 
   return (
-    <div 
-      className={styles.gameTile} 
-      role="article" 
-      aria-label={`Game: ${game.name}`}
-      onClick={handleClick}
-      style={{ cursor: 'pointer' }}
-      tabIndex={0}
-      onKeyDown={(e) => {
-        if (e.key === 'Enter' || e.key === ' ') {
-          e.preventDefault();
-          handleClick();
-        }
-      }}
-    >
-      <div className={styles.gameThumbnail}>
-        {hasValidThumbnail ? (
-          <Image
-            src={game.thumbnail}
-            alt={game.name || 'Game thumbnail'}
-            fill
-            sizes="(max-width: 768px) 50vw, (max-width: 1200px) 33vw, 25vw"
-            className={styles.thumbnailImage}
-            loading={shouldLoadEagerly ? 'eager' : 'lazy'}
-            priority={shouldHavePriority}
-            placeholder="blur"
-            blurDataURL={GAME_THUMBNAIL_BLUR}
-            onError={(e) => {
-              const target = e.target as HTMLImageElement;
-              if (target.parentElement) {
-                target.style.display = 'none';
-              }
-            }}
-          />
-        ) : (
-          <div className={styles.thumbnailPlaceholder}>
-            {game.name?.[0] || '?'}
-          </div>
-        )}
-      </div>
-      <div className={styles.gameInfo}>
-        <h3 className={styles.gameName}>{game.name || 'Unknown Game'}</h3>
-        {game.provider && (
-          <p className={styles.gameProvider}>{game.provider}</p>
-        )}
-      </div>
+    <div className={styles.gameTile}>
+      <Link href={getGamePath(game, locale)} className={styles.gameLink} onClick={handleClick}>
+        <div className={styles.gameThumbnail}>
+          {hasValidThumbnail ? (
+            <Image
+              src={game.thumbnail}
+              alt={game.name || 'Game thumbnail'}
+              fill
+              sizes={GAME_TILE_SIZES}
+              className={styles.thumbnailImage}
+              loading={shouldLoadEagerly ? 'eager' : 'lazy'}
+              priority={shouldHavePriority}
+              placeholder="blur"
+              blurDataURL={GAME_THUMBNAIL_BLUR}
+              onError={(e) => {
+                const target = e.target as HTMLImageElement;
+                if (target.parentElement) {
+                  target.style.display = 'none';
+                }
+              }}
+            />
+          ) : (
+            <div className={styles.thumbnailPlaceholder}>
+              {game.name?.[0] || '?'}
+            </div>
+          )}
+        </div>
+        <div className={styles.gameInfo}>
+          <h3 className={styles.gameName}>
+            {game.name ? <HighlightedText text={game.name} ranges={highlights?.name} /> : 'Unknown Game'}
+          </h3>
+          {game.provider && (
+            <p className={styles.gameProvider}>
+              <HighlightedText text={game.provider} ranges={highlights?.provider} />
+            </p>
+          )}
+        </div>
+      </Link>
+      <button
+        type="button"
+        className={`${styles.favoriteButton} ${isFavorite ? styles.favoriteActive : ''}`}
+        onClick={handleFavoriteClick}
+        aria-pressed={isFavorite}
+        aria-label={isFavorite ? `Remove ${game.name} from favorites` : `Add ${game.name} to favorites`}
+      >
+        {isFavorite ? '★' : '☆'}
+      </button>
     </div>
   );
 }
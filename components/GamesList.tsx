@@ -5,9 +5,14 @@
 
 'use client';
 
-import { useEffect, useState, memo, useRef } from 'react';
+import { useCallback, useEffect, useState, memo } from 'react';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { fetchGamesByCategory, setPageNumber } from '@/store/slices/gamesSlice';
+import {
+  fetchGamesByCategory,
+  fetchSelectedCategoryGames,
+  prefetchGamesByCategory,
+  setPageNumber,
+} from '@/store/slices/gamesSlice';
 import {
   selectGamesWithPagination,
   selectGamesLoading,
@@ -15,9 +20,18 @@ import {
   selectSearchQuery,
   selectPageNumber,
   selectCategoriesWithSelection,
+  selectSelectedProviders,
+  selectScrollMode,
+  selectSearchHighlights,
+  selectTotalCount,
+  selectLatestGamesRequest,
 } from '@/store/selectors';
-import { INITIAL_PAGE_SIZE, INITIAL_LOADER_MIN_TIME } from '@/constants';
+import { INITIAL_PAGE_SIZE, INITIAL_LOADER_MIN_TIME, VIRTUALIZATION_THRESHOLD } from '@/constants';
+import { isFavoritesCategory } from '@/store/slices/favoritesSlice';
+import { analytics } from '@/utils/analytics';
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll';
 import GameTile from './GameTile';
+import VirtualGamesGrid from './VirtualGamesGrid';
 import SkeletonLoader from './SkeletonLoader';
 import Pagination from './Pagination';
 import styles from './GamesList.module.scss';
@@ -26,12 +40,18 @@ function GamesList() {
   const dispatch = useAppDispatch();
   
   // Use memoized selectors
-  const { games: items } = useAppSelector(selectGamesWithPagination);
+  const { games: items, hasMore, pageSize, totalCount } = useAppSelector(selectGamesWithPagination);
   const pageNumber = useAppSelector(selectPageNumber);
   const loading = useAppSelector(selectGamesLoading);
   const error = useAppSelector(selectGamesError);
   const searchQuery = useAppSelector(selectSearchQuery);
+  const selectedProviders = useAppSelector(selectSelectedProviders);
   const { selectedCategory } = useAppSelector(selectCategoriesWithSelection);
+  const scrollMode = useAppSelector(selectScrollMode);
+  const searchHighlights = useAppSelector(selectSearchHighlights);
+  const isInfinite = scrollMode === 'infinite';
+  const loadedTotalCount = useAppSelector(selectTotalCount);
+  const latestRequest = useAppSelector(selectLatestGamesRequest);
   
   // Show loader for at least 1 second to prevent flickering
   const [showInitialLoader, setShowInitialLoader] = useState(true);
@@ -44,73 +64,83 @@ function GamesList() {
     return () => clearTimeout(timer);
   }, []);
 
-  // Track previous category and search to reset pageNumber when they change
-  const prevCategoryIdRef = useRef<string | undefined>(selectedCategory?.id);
-  const prevSearchQueryRef = useRef<string | undefined>(searchQuery);
-  
-  // Reset pageNumber to 1 when category or search changes
-  useEffect(() => {
-    const categoryChanged = selectedCategory?.id !== prevCategoryIdRef.current;
-    const searchChanged = searchQuery !== prevSearchQueryRef.current;
-    
-    if (categoryChanged || searchChanged) {
-      prevCategoryIdRef.current = selectedCategory?.id;
-      prevSearchQueryRef.current = searchQuery;
-      if (pageNumber !== 1) {
-        dispatch(setPageNumber(1));
-      }
-    }
-  }, [selectedCategory?.id, searchQuery, dispatch, pageNumber]);
+  // pageNumber is reset to 1 by the reducers when category or search changes,
+  // so a page restored from the URL is not overwritten here
 
   // Fetch games when category, search, or pageNumber changes
   // Use getPage from selectedCategory to fetch games for that specific category
-  const lastFetchRef = useRef<string>('');
-  
+  // The slice skips requests that are already loading or loaded (e.g. the server-rendered page)
+  // and aborts superseded ones
+  useEffect(() => {
+    dispatch(fetchSelectedCategoryGames());
+  }, [dispatch, selectedCategory?.getPage, selectedCategory?.endpoint, searchQuery, pageNumber, selectedProviders, isInfinite]);
+
+  // Once a server page has loaded, warm the pages the user is likely to open next:
+  // the next and previous page, or the next page to append in infinite mode
+  // Client-side paginated categories are loaded whole - nothing to prefetch
+  const hasLoadedPage = latestRequest?.status === 'succeeded';
   useEffect(() => {
-    if (!selectedCategory?.getPage || loading) {
+    if (!hasLoadedPage || !selectedCategory?.getPage || selectedCategory.endpoint === 'store') {
       return;
     }
-    
-    // Check if endpoint supports search and pagination
-    const supportsSearch = selectedCategory.getPage.includes('/en/games/tiles') || 
-                           selectedCategory.getPage === '/casino' || 
-                           selectedCategory.getPage === '/pages/en/casino';
-    
-    // Check if endpoint supports pagination
-    // /en/games/tiles supports pagination, but /pages/en/casino/* endpoints don't
-    const supportsPagination = supportsSearch; // Same endpoints support both
-    
-    // Use client-side pagination if:
-    // 1. Search is active and endpoint doesn't support search, OR
-    // 2. Endpoint doesn't support pagination (e.g., /pages/en/casino/most-popular)
+
     const hasSearch = searchQuery && searchQuery.trim().length > 0;
-    const useClientSidePagination = (hasSearch && !supportsSearch) || !supportsPagination;
-    
-    // Create a unique key for this fetch request
-    // For client-side pagination, don't include pageNumber in the key
-    const fetchKey = useClientSidePagination
-      ? `${selectedCategory.getPage}-${searchQuery || ''}`
-      : `${selectedCategory.getPage}-${searchQuery || ''}-${pageNumber}`;
-    
-    // Only fetch if this is a new request
-    if (lastFetchRef.current !== fetchKey) {
-      lastFetchRef.current = fetchKey;
-      
-      // Fetch games for the selected category using its getPage URL
-      // API will filter games by category on the server side
-      // For client-side pagination, fetch with pageNumber=1 (we'll paginate client-side)
+    if (selectedCategory.endpoint !== 'tiles' && !hasSearch) {
+      return;
+    }
+
+    const totalPages = Math.ceil(loadedTotalCount / INITIAL_PAGE_SIZE);
+    const adjacentPages = isInfinite ? [pageNumber + 1] : [pageNumber + 1, pageNumber - 1];
+    adjacentPages
+      .filter((page) => page >= 1 && page <= totalPages)
+      .forEach((page) => {
+        dispatch(
+          prefetchGamesByCategory(
+            selectedCategory.getPage,
+            {
+              search: searchQuery || undefined,
+              pageNumber: page,
+              pageSize: INITIAL_PAGE_SIZE,
+            },
+            { append: isInfinite && page > 1 }
+          )
+        );
+      });
+  }, [dispatch, hasLoadedPage, selectedCategory?.getPage, selectedCategory?.endpoint, searchQuery, pageNumber, loadedTotalCount, isInfinite]);
+
+  // Favorites come from the store - a pending fetch of another category is irrelevant
+  const isFavorites = isFavoritesCategory(selectedCategory);
+  const isLoading = loading && !isFavorites;
+
+  // Infinite scroll: load the next page when the end of the list comes into view
+  const handleLoadMore = useCallback(() => {
+    if (analytics) {
+      analytics.trackLoadMore(items.length, Math.min(items.length + pageSize, totalCount));
+    }
+    dispatch(setPageNumber(pageNumber + 1));
+  }, [dispatch, items.length, pageSize, totalCount, pageNumber]);
+
+  const getPage = selectedCategory?.getPage;
+  const handleRetryLoadMore = useCallback(() => {
+    if (getPage) {
       dispatch(
-        fetchGamesByCategory(selectedCategory.getPage, {
-          search: searchQuery || undefined,
-          pageNumber: useClientSidePagination ? 1 : pageNumber,
-          pageSize: INITIAL_PAGE_SIZE,
-        })
+        fetchGamesByCategory(
+          getPage,
+          {
+            search: searchQuery || undefined,
+            pageNumber,
+            pageSize: INITIAL_PAGE_SIZE,
+          },
+          { append: true }
+        )
       );
     }
-  }, [dispatch, selectedCategory?.getPage, searchQuery, pageNumber, loading]);
+  }, [dispatch, getPage, searchQuery, pageNumber]);
+
+  const sentinelRef = useInfiniteScroll(handleLoadMore, isInfinite && hasMore && !isLoading && !error);
 
   // Show skeleton loader if loading or during first second
-  if ((loading || showInitialLoader) && items.length === 0) {
+  if ((isLoading || showInitialLoader) && items.length === 0) {
     return (
       <div className={styles.gamesList}>
         <div className={styles.gamesGrid}>
@@ -120,7 +150,7 @@ function GamesList() {
     );
   }
 
-  if (error && items.length === 0) {
+  if (error && items.length === 0 && !isFavorites) {
     return (
       <div className={styles.gamesList}>
         <div className={styles.error}>
@@ -146,6 +176,19 @@ function GamesList() {
     );
   }
 
+  if (items.length === 0 && isFavorites && !searchQuery) {
+    return (
+      <div className={styles.gamesList}>
+        <div className={styles.empty}>
+          <p>No favorites yet</p>
+          <p className={styles.emptyHint}>
+            Tap the star on any game to add it here
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   if (items.length === 0) {
     return (
       <div className={styles.gamesList}>
@@ -164,14 +207,24 @@ function GamesList() {
   return (
     <div className={styles.gamesList}>
       <div className={styles.gamesGridContainer}>
-        <div className={styles.gamesGrid}>
-          {items.map((game, index) => (
-            <GameTile key={game.id} game={game} index={index} />
-          ))}
-        </div>
+        {/* Large result sets (infinite scroll, long favorites) only mount the visible rows */}
+        {items.length > VIRTUALIZATION_THRESHOLD ? (
+          <VirtualGamesGrid games={items} highlights={searchHighlights} />
+        ) : (
+          <div className={styles.gamesGrid}>
+            {items.map((game, index) => (
+              <GameTile
+                key={game.id}
+                game={game}
+                index={index}
+                highlights={searchHighlights.get(game.id)}
+              />
+            ))}
+          </div>
+        )}
         
         {/* Show loading overlay when filtering by category */}
-        {loading && items.length > 0 && (
+        {isLoading && items.length > 0 && !isInfinite && (
           <div className={styles.loadingOverlay}>
             <div className={styles.loadingSpinner}></div>
             <p>Loading games...</p>
@@ -179,8 +232,24 @@ function GamesList() {
         )}
       </div>
       
-      {/* Pagination */}
-      <Pagination />
+      {isInfinite ? (
+        <div ref={sentinelRef} className={styles.loadMore}>
+          {isLoading ? (
+            <div className={styles.loadingSpinner} role="status" aria-label="Loading more games"></div>
+          ) : error ? (
+            <button type="button" className={styles.loadMoreButton} onClick={handleRetryLoadMore}>
+              Retry loading more games
+            </button>
+          ) : hasMore && (
+            // Fallback for keyboard users and browsers without IntersectionObserver
+            <button type="button" className={styles.loadMoreButton} onClick={handleLoadMore}>
+              Load more games
+            </button>
+          )}
+        </div>
+      ) : (
+        <Pagination />
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+/**
+ * Games Toolbar Component
+ * Sort order, bet size filters and paged/infinite display for the games grid
+ */
+
+'use client';
+
+import { memo, useCallback, useMemo } from 'react';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setBetSizeFilter, setScrollMode, setSortOrder } from '@/store/slices/gamesSlice';
+import {
+  selectBetSizeFilter,
+  selectBetSizeRange,
+  selectIsServerPaginated,
+  selectScrollMode,
+  selectSortOrder,
+} from '@/store/selectors';
+import type { ScrollMode, SortOrder } from '@/types';
+import { analytics } from '@/utils/analytics';
+import { BET_SIZE_STEPS } from '@/constants';
+import styles from './GamesToolbar.module.scss';
+
+const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'default', label: 'Recommended' },
+  { value: 'name', label: 'Name (A–Z)' },
+  { value: 'provider', label: 'Provider' },
+  { value: 'minBet', label: 'Lowest min bet' },
+  { value: 'maxBet', label: 'Highest max bet' },
+];
+
+const SCROLL_MODE_OPTIONS: { value: ScrollMode; label: string }[] = [
+  { value: 'paged', label: 'Pages' },
+  { value: 'infinite', label: 'Infinite scroll' },
+];
+
+// Select value for "no filter"
+const ANY = '';
+
+const formatStake = (value: number) => (value < 1 ? value.toFixed(2) : String(value));
+
+function GamesToolbar() {
+  const dispatch = useAppDispatch();
+  const sortOrder = useAppSelector(selectSortOrder);
+  const betSizeFilter = useAppSelector(selectBetSizeFilter);
+  const betSizeRange = useAppSelector(selectBetSizeRange);
+  const scrollMode = useAppSelector(selectScrollMode);
+  // Sort and bet filters only work on fully loaded lists, not on one page of the API
+  const isServerPaginated = useAppSelector(selectIsServerPaginated);
+
+  // Only offer stakes within the range of the loaded games
+  const stakeOptions = useMemo(() => {
+    const { min, max } = betSizeRange;
+    if (min === null && max === null) {
+      return [];
+    }
+    return BET_SIZE_STEPS.filter(
+      (step) => (min === null || step >= min) && (max === null || step <= max)
+    );
+  }, [betSizeRange]);
+
+  const handleSortChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value as SortOrder;
+    dispatch(setSortOrder(value));
+
+    if (analytics) {
+      analytics.trackFilter('sort', value);
+    }
+  }, [dispatch]);
+
+  const handleScrollModeChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value as ScrollMode;
+    dispatch(setScrollMode(value));
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+
+    if (analytics) {
+      analytics.trackFilter('scroll_mode', value);
+    }
+  }, [dispatch]);
+
+  const handleBetSizeChange = useCallback(
+    (key: 'maxMinBet' | 'minMaxBet') => (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const value = e.target.value === ANY ? null : Number(e.target.value);
+      dispatch(setBetSizeFilter({ ...betSizeFilter, [key]: value }));
+
+      if (analytics) {
+        analytics.trackFilter(key, e.target.value || 'any');
+      }
+    },
+    [dispatch, betSizeFilter]
+  );
+
+  const hasBetSizeFilter = betSizeFilter.maxMinBet !== null || betSizeFilter.minMaxBet !== null;
+
+  return (
+    <div className={styles.toolbar} role="toolbar" aria-label="Sort and filter games">
+      <label className={styles.control}>
+        <span className={styles.label}>Sort by</span>
+        <select
+          className={styles.select}
+          value={isServerPaginated ? 'default' : sortOrder}
+          onChange={handleSortChange}
+          disabled={isServerPaginated}
+        >
+          {SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className={styles.control}>
+        <span className={styles.label}>Show as</span>
+        <select
+          className={styles.select}
+          value={scrollMode}
+          onChange={handleScrollModeChange}
+        >
+          {SCROLL_MODE_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {!isServerPaginated && (stakeOptions.length > 0 || hasBetSizeFilter) && (
+        <>
+          <label className={styles.control}>
+            <span className={styles.label}>Min bet up to</span>
+            <select
+              className={styles.select}
+              value={betSizeFilter.maxMinBet ?? ANY}
+              onChange={handleBetSizeChange('maxMinBet')}
+            >
+              <option value={ANY}>Any</option>
+              {stakeOptions.map((step) => (
+                <option key={step} value={step}>
+                  {formatStake(step)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className={styles.control}>
+            <span className={styles.label}>Max bet at least</span>
+            <select
+              className={styles.select}
+              value={betSizeFilter.minMaxBet ?? ANY}
+              onChange={handleBetSizeChange('minMaxBet')}
+            >
+              <option value={ANY}>Any</option>
+              {stakeOptions.map((step) => (
+                <option key={step} value={step}>
+                  {formatStake(step)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          {hasBetSizeFilter && (
+            <button
+              type="button"
+              className={styles.resetButton}
+              onClick={() => dispatch(setBetSizeFilter({ maxMinBet: null, minMaxBet: null }))}
+            >
+              Reset bets
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default memo(GamesToolbar);
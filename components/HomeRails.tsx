@@ -0,0 +1,136 @@
+/**
+ * Home Rails Component
+ * Server component rendering one horizontal rail per category (its first games)
+ * Every rail is its own Suspense boundary, so rails are streamed as their category's games resolve
+ * Config and games go through the API routes' loaders (cache, circuit breaker, last known good data)
+ */
+
+import { Suspense } from 'react';
+import Link from 'next/link';
+import { fetchCategoryGames, fetchConfig } from '@/services/api';
+import type { Category, GameTile as GameTileType, Locale } from '@/types';
+import { logger } from '@/utils/logger';
+import { buildLobbyQuery } from '@/utils/lobbyQuery';
+import { HOME_RAIL_SIZE } from '@/constants';
+import GameTile from './GameTile';
+import SkeletonLoader from './SkeletonLoader';
+import styles from './HomeRails.module.scss';
+
+interface HomeRailsProps {
+  locale: Locale;
+}
+
+interface CategoryRailProps {
+  category: Category;
+  locale: Locale;
+  position: number; // Rail index - only the first rails' images load eagerly
+}
+
+// Rail placeholder while its games load - same size as the rail, so streaming doesn't shift the page
+function RailSkeleton({ title }: { title?: string }) {
+  return (
+    <section className={styles.categoryRail} aria-busy="true">
+      <div className={styles.header}>
+        <h2 className={styles.title}>{title}</h2>
+      </div>
+      <div className={styles.rail}>
+        <SkeletonLoader count={HOME_RAIL_SIZE} className={styles.railItem} />
+      </div>
+    </section>
+  );
+}
+
+// First games of a category, or null if they couldn't be fetched (the rail is left out)
+async function getRailGames(
+  category: Category,
+  locale: Locale
+): Promise<{ games: GameTileType[]; totalCount: number } | null> {
+  try {
+    const response = await fetchCategoryGames(category.getPage, {
+      pageNumber: 1,
+      pageSize: HOME_RAIL_SIZE,
+      locale,
+    });
+    // Page categories return all their games at once
+    return {
+      games: response.games.slice(0, HOME_RAIL_SIZE),
+      totalCount: response.totalCount,
+    };
+  } catch (error) {
+    logger.error(
+      'Failed to fetch category rail',
+      error instanceof Error ? error : new Error(String(error)),
+      { component: 'HomeRails', action: 'fetchCategoryGames', category: category.id, locale }
+    );
+    return null;
+  }
+}
+
+export async function CategoryRail({ category, locale, position }: CategoryRailProps) {
+  const result = await getRailGames(category, locale);
+  if (!result || result.games.length === 0) {
+    return null;
+  }
+
+  const titleId = `rail-${category.id}-title`;
+  // Full category view in GamesList
+  const categoryHref = `/${locale}?${buildLobbyQuery({ category: category.id, search: '', page: 1 })}`;
+
+  return (
+    <section className={styles.categoryRail} aria-labelledby={titleId}>
+      <div className={styles.header}>
+        <h2 id={titleId} className={styles.title}>
+          {category.name}
+        </h2>
+        <Link href={categoryHref} className={styles.seeAll}>
+          See all{result.totalCount > result.games.length ? ` (${result.totalCount})` : ''}
+        </Link>
+      </div>
+
+      <div className={styles.rail}>
+        {result.games.map((game, index) => (
+          <div key={game.id} className={styles.railItem}>
+            <GameTile game={game} index={position * HOME_RAIL_SIZE + index} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+export async function CategoryRails({ locale }: HomeRailsProps) {
+  let categories: Category[] = [];
+  try {
+    categories = await fetchConfig(locale);
+  } catch (error) {
+    logger.error(
+      'Failed to fetch home categories',
+      error instanceof Error ? error : new Error(String(error)),
+      { component: 'HomeRails', action: 'fetchConfig', locale }
+    );
+  }
+
+  if (categories.length === 0) {
+    return <div className={styles.empty}>No categories available</div>;
+  }
+
+  return (
+    <>
+      {categories.map((category, position) => (
+        <Suspense key={category.id} fallback={<RailSkeleton title={category.name} />}>
+          <CategoryRail category={category} locale={locale} position={position} />
+        </Suspense>
+      ))}
+    </>
+  );
+}
+
+export default function HomeRails({ locale }: HomeRailsProps) {
+  return (
+    <div className={styles.homeRails}>
+      <Suspense fallback={<RailSkeleton />}>
+        <CategoryRails locale={locale} />
+      </Suspense>
+    </div>
+  );
+}
@@ -1,51 +1,61 @@
 /**
  * Lobby Content Component
- * Client component that receives initial server data and populates Redux store
+ * Client component that receives the initial state rendered on the server
+ * (categories, the view from the URL and its first games page) and creates the Redux store from it
  */
 
 'use client';
 
-import { useEffect, Suspense, lazy } from 'react';
-import { useAppDispatch } from '@/store/hooks';
-import { setCategories } from '@/store/slices/categoriesSlice';
-import type { Category } from '@/types';
+import { useEffect } from 'react';
+import { useAppSelector } from '@/store/hooks';
+import { selectLocale } from '@/store/selectors';
+import type { PreloadedState } from '@/store/store';
+import type { Locale } from '@/types';
 import { analytics } from '@/utils/analytics';
+import { useLobbyUrlSync } from '@/hooks/useLobbyUrlSync';
+import ReduxProvider from './ReduxProvider';
 import CategoriesNav from './CategoriesNav'; // Keep CategoriesNav non-lazy since it's critical for SSR
 import SearchBar from './SearchBar'; // Keep SearchBar non-lazy to avoid layout shift
-import SkeletonLoader from './SkeletonLoader';
-import styles from './LobbyContent.module.scss';
-
-// Lazy load components that are not critical for initial render
-const GamesList = lazy(() => import('./GamesList'));
+import ProviderFilter from './ProviderFilter';
+import GamesToolbar from './GamesToolbar';
+import ContinuePlaying from './ContinuePlaying';
+import GamesList from './GamesList'; // Not lazy - the first page is part of the server-rendered HTML
 
 interface LobbyContentProps {
-  initialCategories: Category[];
+  locale: Locale;
+  initialState: PreloadedState; // Lobby state built on the server for the URL's view
 }
 
-export default function LobbyContent({ initialCategories }: LobbyContentProps) {
-  const dispatch = useAppDispatch();
+function Lobby() {
+  const locale = useAppSelector(selectLocale);
 
   useEffect(() => {
-    // Pre-populate categories from server-side data
-    if (initialCategories.length > 0) {
-      dispatch(setCategories(initialCategories));
-    }
-
     // Track page view
     if (analytics) {
-      analytics.trackPageView('/');
+      analytics.trackPageView(`/${locale}`);
     }
-  }, [dispatch, initialCategories]);
+  }, [locale]);
+
+  // Keep category, search and page in the query string
+  useLobbyUrlSync();
 
   return (
     <>
       {/* CategoriesNav and SearchBar are not lazy-loaded to avoid hydration mismatch and layout shift */}
       <CategoriesNav />
       <SearchBar />
-      <Suspense fallback={<div className={styles.loadingPlaceholder}><SkeletonLoader count={10} /></div>}>
-        <GamesList />
-      </Suspense>
+      <ProviderFilter />
+      <GamesToolbar />
+      <ContinuePlaying />
+      <GamesList />
     </>
   );
 }
 
+export default function LobbyContent({ locale, initialState }: LobbyContentProps) {
+  return (
+    <ReduxProvider locale={locale} preloadedState={initialState}>
+      <Lobby />
+    </ReduxProvider>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * Offline Banner Component
+ * Tells the user the lobby shows games saved on this device while the browser is offline
+ */
+
+'use client';
+
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import styles from './OfflineBanner.module.scss';
+
+export default function OfflineBanner() {
+  const isOnline = useOnlineStatus();
+
+  if (isOnline) {
+    return null;
+  }
+
+  return (
+    <div className={styles.offlineBanner} role="status">
+      You are offline - showing games saved on this device. Some categories and searches may be unavailable.
+    </div>
+  );
+}
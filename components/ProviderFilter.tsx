@@ -0,0 +1,82 @@
+/**
+ * Provider Filter Component
+ * Multi-select facet of the providers of the loaded games, with logos and counts
+ */
+
+'use client';
+
+import { memo, useCallback } from 'react';
+import Image from 'next/image';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { clearProviders, toggleProvider } from '@/store/slices/gamesSlice';
+import { selectProviderFacets, selectSelectedProviders } from '@/store/selectors';
+import { analytics } from '@/utils/analytics';
+import styles from './ProviderFilter.module.scss';
+
+function ProviderFilter() {
+  const dispatch = useAppDispatch();
+  const facets = useAppSelector(selectProviderFacets);
+  const selectedProviders = useAppSelector(selectSelectedProviders);
+
+  const handleToggle = useCallback((slug: string) => {
+    dispatch(toggleProvider(slug));
+
+    // Track provider filter change
+    if (analytics) {
+      analytics.trackFilter('provider', slug);
+    }
+  }, [dispatch]);
+
+  const handleClear = useCallback(() => {
+    dispatch(clearProviders());
+  }, [dispatch]);
+
+  // A single provider is not worth filtering by
+  if (facets.length < 2 && selectedProviders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={styles.providerFilter} role="group" aria-label="Filter games by provider">
+      <div className={styles.providerList}>
+        {facets.map((facet) => {
+          const isSelected = selectedProviders.includes(facet.slug);
+          return (
+            <button
+              key={facet.slug}
+              type="button"
+              className={`${styles.providerButton} ${isSelected ? styles.active : ''}`}
+              onClick={() => handleToggle(facet.slug)}
+              aria-pressed={isSelected}
+              aria-label={`${facet.name} (${facet.count} games)`}
+            >
+              {facet.logo && (
+                <Image
+                  src={facet.logo}
+                  alt=""
+                  width={20}
+                  height={20}
+                  className={styles.providerLogo}
+                />
+              )}
+              <span className={styles.providerName}>{facet.name}</span>
+              <span className={styles.providerCount}>{facet.count}</span>
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedProviders.length > 0 && (
+        <button
+          type="button"
+          className={styles.clearButton}
+          onClick={handleClear}
+        >
+          Clear providers
+        </button>
+      )}
+    </div>
+  );
+}
+
+export default memo(ProviderFilter);
@@ -1,22 +1,129 @@
 /**
  * Redux Provider component for Next.js App Router
  * This component wraps the app with Redux store provider
- * Creates a new store instance for client-side rendering
+ * Creates a new store instance for client-side rendering,
+ * optionally starting from state rendered on the server
  */
 
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { Provider } from 'react-redux';
-import { makeStore, type AppStore } from '@/store/store';
+import type { AnyAction } from 'redux';
+import { makeStore, type AppStore, type PreloadedState, type RootState } from '@/store/store';
+import { setLocale } from '@/store/slices/categoriesSlice';
+import { hydrateFavorites } from '@/store/slices/favoritesSlice';
+import { hydrateRecentlyPlayed } from '@/store/slices/recentlyPlayedSlice';
+import { hydrateRecentSearches } from '@/store/slices/recentSearchesSlice';
+import {
+  isGameTile,
+  isRecentlyPlayedEntry,
+  type GameTile,
+  type Locale,
+  type RecentlyPlayedEntry,
+} from '@/types';
+import { loadFromStorage, saveToStorage } from '@/utils/storage';
+import {
+  FAVORITES_STORAGE_KEY,
+  RECENTLY_PLAYED_STORAGE_KEY,
+  RECENT_SEARCHES_STORAGE_KEY,
+} from '@/constants';
+
+// A piece of state mirrored to localStorage
+interface PersistedSlice<T> {
+  key: string;
+  select: (state: RootState) => T[];
+  isValid: (value: unknown) => value is T;
+  hydrate: (items: T[]) => AnyAction;
+}
+
+const FAVORITES_PERSISTENCE: PersistedSlice<GameTile> = {
+  key: FAVORITES_STORAGE_KEY,
+  select: (state) => state.favorites.items,
+  isValid: isGameTile,
+  hydrate: hydrateFavorites,
+};
+
+const RECENTLY_PLAYED_PERSISTENCE: PersistedSlice<RecentlyPlayedEntry> = {
+  key: RECENTLY_PLAYED_STORAGE_KEY,
+  select: (state) => state.recentlyPlayed.items,
+  isValid: isRecentlyPlayedEntry,
+  hydrate: hydrateRecentlyPlayed,
+};
+
+const RECENT_SEARCHES_PERSISTENCE: PersistedSlice<string> = {
+  key: RECENT_SEARCHES_STORAGE_KEY,
+  select: (state) => state.recentSearches.items,
+  isValid: (value): value is string => typeof value === 'string',
+  hydrate: hydrateRecentSearches,
+};
+
+/**
+ * Hydrate a slice from localStorage and save it on every change
+ * Also picks up changes made in other tabs
+ * @returns Cleanup function
+ */
+function persistSlice<T>(store: AppStore, slice: PersistedSlice<T>): () => void {
+  // Stored JSON may parse to anything (edited by hand, older formats) - only arrays are kept
+  const load = () => {
+    const stored = loadFromStorage<unknown>(slice.key, []);
+    return Array.isArray(stored) ? stored.filter(slice.isValid) : [];
+  };
+
+  store.dispatch(slice.hydrate(load()));
+
+  let items = slice.select(store.getState());
+  const unsubscribe = store.subscribe(() => {
+    const nextItems = slice.select(store.getState());
+    if (nextItems !== items) {
+      items = nextItems;
+      saveToStorage(slice.key, items);
+    }
+  });
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key === slice.key) {
+      store.dispatch(slice.hydrate(load()));
+      // Don't echo the other tab's write back to storage
+      items = slice.select(store.getState());
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('storage', handleStorage);
+  };
+}
 
 interface ReduxProviderProps {
   children: React.ReactNode;
+  locale: Locale;
+  preloadedState?: PreloadedState; // e.g. categories and the first games page fetched on the server
 }
 
-export default function ReduxProvider({ children }: ReduxProviderProps) {
-  // Create store instance only once per client
-  const store = useMemo<AppStore>(() => makeStore(), []);
+export default function ReduxProvider({ children, locale, preloadedState }: ReduxProviderProps) {
+  // Create store instance only once per client (and market)
+  // Locale is set before the first render so every fetch targets the right market
+  const store = useMemo<AppStore>(() => {
+    const newStore = makeStore(preloadedState);
+    newStore.dispatch(setLocale(locale));
+    return newStore;
+  }, [locale, preloadedState]);
+
+  // Hydrate persisted state after mount (never during SSR, so markup matches on hydration)
+  // and write it back whenever it changes
+  useEffect(() => {
+    const cleanupFavorites = persistSlice(store, FAVORITES_PERSISTENCE);
+    const cleanupRecentlyPlayed = persistSlice(store, RECENTLY_PLAYED_PERSISTENCE);
+    const cleanupRecentSearches = persistSlice(store, RECENT_SEARCHES_PERSISTENCE);
+
+    return () => {
+      cleanupFavorites();
+      cleanupRecentlyPlayed();
+      cleanupRecentSearches();
+    };
+  }, [store]);
 
   return <Provider store={store}>{children}</Provider>;
 }
@@ -1,40 +1,91 @@
 /**
  * Search Bar Component
- * Allows users to search for games by name
+ * Allows users to search for games, with an autocomplete popover of matching
+ * games, providers, categories and recent searches (ARIA combobox pattern)
  */
 
 'use client';
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
 import { useAppDispatch, useAppSelector } from '@/store/hooks';
-import { setSearchQuery } from '@/store/slices/gamesSlice';
-import { selectSearchQuery } from '@/store/selectors';
+import { setSearchQuery, toggleProvider } from '@/store/slices/gamesSlice';
+import { setSelectedCategory } from '@/store/slices/categoriesSlice';
+import { recordGamePlayed } from '@/store/slices/recentlyPlayedSlice';
+import { addRecentSearch } from '@/store/slices/recentSearchesSlice';
+import {
+  selectGames,
+  selectLocale,
+  selectNavCategories,
+  selectRecentSearches,
+  selectSearchQuery,
+  selectSelectedProviders,
+} from '@/store/selectors';
+import type { SearchSuggestion } from '@/types';
 import { useDebounce } from '@/hooks/useDebounce';
 import { useKeyboardShortcuts } from '@/hooks/useKeyboardShortcuts';
 import { analytics } from '@/utils/analytics';
+import { getGamePath } from '@/utils/games';
+import { getSearchSuggestions } from '@/utils/search';
 import { SEARCH_DEBOUNCE_MS } from '@/constants';
 import styles from './SearchBar.module.scss';
 
+const LISTBOX_ID = 'search-games-suggestions';
+const getOptionId = (index: number) => `${LISTBOX_ID}-${index}`;
+
+const SUGGESTION_TYPE_LABELS: Record<SearchSuggestion['type'], string> = {
+  recent: 'Recent',
+  game: 'Game',
+  provider: 'Provider',
+  category: 'Category',
+};
+
 export default function SearchBar() {
   const dispatch = useAppDispatch();
+  const router = useRouter();
   const searchQuery = useAppSelector(selectSearchQuery);
+  const games = useAppSelector(selectGames);
+  const categories = useAppSelector(selectNavCategories);
+  const recentSearches = useAppSelector(selectRecentSearches);
+  const selectedProviders = useAppSelector(selectSelectedProviders);
+  const locale = useAppSelector(selectLocale);
   const [localQuery, setLocalQuery] = useState(searchQuery);
   const inputRef = useRef<HTMLInputElement>(null);
+
+  // Autocomplete popover state
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const suggestions = useMemo(
+    () => getSearchSuggestions(localQuery, { games, categories, recentSearches }),
+    [localQuery, games, categories, recentSearches]
+  );
+  const isExpanded = isOpen && suggestions.length > 0;
   
   // Use debounce hook
   const debouncedQuery = useDebounce(localQuery, SEARCH_DEBOUNCE_MS);
 
+  // Reflect external changes (URL restore, back/forward) in the input
+  const [prevSearchQuery, setPrevSearchQuery] = useState(searchQuery);
+  if (searchQuery !== prevSearchQuery) {
+    setPrevSearchQuery(searchQuery);
+    setLocalQuery(searchQuery);
+  }
+
   // Update Redux store when debounced value changes
+  // Only once the input has settled, so a stale debounced value never overwrites an external change
   useEffect(() => {
-    if (debouncedQuery !== searchQuery) {
+    if (debouncedQuery !== searchQuery && debouncedQuery === localQuery) {
       dispatch(setSearchQuery(debouncedQuery));
       
       // Track search event
-      if (analytics && debouncedQuery) {
-        analytics.trackSearch(debouncedQuery);
+      if (debouncedQuery) {
+        dispatch(addRecentSearch(debouncedQuery));
+        if (analytics) {
+          analytics.trackSearch(debouncedQuery);
+        }
       }
     }
-  }, [debouncedQuery, searchQuery, dispatch]);
+  }, [debouncedQuery, localQuery, searchQuery, dispatch]);
 
   // Keyboard shortcut: Ctrl+K or Cmd+K to focus search
   useKeyboardShortcuts([
@@ -58,6 +109,8 @@ export default function SearchBar() {
 
   const handleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setLocalQuery(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
   }, []);
 
   const handleClear = useCallback(() => {
@@ -65,6 +118,105 @@ export default function SearchBar() {
     dispatch(setSearchQuery(''));
   }, [dispatch]);
 
+  const closeSuggestions = useCallback(() => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  }, []);
+
+  // Apply a search right away instead of waiting for the debounce
+  const commitSearch = useCallback((query: string) => {
+    setLocalQuery(query);
+    closeSuggestions();
+    if (query !== searchQuery) {
+      dispatch(setSearchQuery(query));
+      if (query) {
+        dispatch(addRecentSearch(query));
+        if (analytics) {
+          analytics.trackSearch(query);
+        }
+      }
+    }
+  }, [dispatch, searchQuery, closeSuggestions]);
+
+  // Games, providers and categories are opened directly - the typed text is not searched for
+  const handleSelectSuggestion = useCallback((suggestion: SearchSuggestion) => {
+    if (analytics) {
+      analytics.trackSearchSuggestion(localQuery, suggestion.type, suggestion.label);
+    }
+
+    if (suggestion.type === 'recent') {
+      commitSearch(suggestion.label);
+      return;
+    }
+
+    setLocalQuery(searchQuery);
+    closeSuggestions();
+
+    switch (suggestion.type) {
+      case 'game':
+        dispatch(recordGamePlayed(suggestion.game));
+        router.push(getGamePath(suggestion.game, locale));
+        break;
+      case 'provider':
+        if (!selectedProviders.includes(suggestion.providerSlug)) {
+          dispatch(toggleProvider(suggestion.providerSlug));
+        }
+        break;
+      case 'category':
+        dispatch(setSelectedCategory(suggestion.category));
+        if (analytics) {
+          analytics.trackCategorySelect(suggestion.category.id, suggestion.category.name);
+        }
+        break;
+    }
+  }, [dispatch, router, locale, localQuery, searchQuery, selectedProviders, commitSearch, closeSuggestions]);
+
+  const handleKeyDown = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isExpanded) {
+          setIsOpen(true);
+        } else {
+          setActiveIndex((index) => (index + 1) % suggestions.length);
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        if (isExpanded) {
+          setActiveIndex((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        }
+        break;
+      case 'Enter':
+        e.preventDefault();
+        if (isExpanded && activeIndex >= 0) {
+          handleSelectSuggestion(suggestions[activeIndex]);
+        } else {
+          commitSearch(localQuery.trim());
+        }
+        break;
+      case 'Escape':
+        // First Escape closes the popover, the next one clears the input
+        if (isExpanded) {
+          e.preventDefault();
+          closeSuggestions();
+        } else if (localQuery) {
+          e.preventDefault();
+          handleClear();
+        }
+        break;
+    }
+  }, [
+    isExpanded,
+    activeIndex,
+    suggestions,
+    localQuery,
+    handleSelectSuggestion,
+    commitSearch,
+    closeSuggestions,
+    handleClear,
+  ]);
+
   return (
     <div className={styles.searchBar}>
       <div className={styles.searchInputWrapper}>
@@ -77,7 +229,15 @@ export default function SearchBar() {
           placeholder="Search games... (Ctrl+K or Cmd+K)"
           value={localQuery}
           onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={closeSuggestions}
+          role="combobox"
           aria-label="Search games"
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls={LISTBOX_ID}
+          aria-activedescendant={isExpanded && activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
           autoComplete="off"
         />
         {localQuery && (
@@ -90,6 +250,34 @@ export default function SearchBar() {
             ×
           </button>
         )}
+
+        <ul
+          id={LISTBOX_ID}
+          role="listbox"
+          aria-label="Search suggestions"
+          className={styles.suggestions}
+          hidden={!isExpanded}
+        >
+          {isExpanded && suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              id={getOptionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`${styles.suggestion} ${index === activeIndex ? styles.active : ''}`}
+              // Keep focus in the input so the popover stays open until the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => handleSelectSuggestion(suggestion)}
+            >
+              <span className={styles.suggestionLabel}>{suggestion.label}</span>
+              {suggestion.type === 'game' && suggestion.game.provider && (
+                <span className={styles.suggestionDetail}>{suggestion.game.provider}</span>
+              )}
+              <span className={styles.suggestionType}>{SUGGESTION_TYPE_LABELS[suggestion.type]}</span>
+            </li>
+          ))}
+        </ul>
       </div>
     </div>
   );
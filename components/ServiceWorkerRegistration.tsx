@@ -0,0 +1,18 @@
+/**
+ * Service Worker Registration Component
+ * Registers the service worker once per page load, for every page of the app
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { registerServiceWorker } from '@/utils/serviceWorker';
+
+export default function ServiceWorkerRegistration() {
+  // The service worker keeps the lobby, its games and thumbnails available offline
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  return null;
+}
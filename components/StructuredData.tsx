@@ -3,10 +3,26 @@
  * Provides structured data for SEO
  */
 
+import type { GameTile, Locale } from '@/types';
+import { DEFAULT_LOCALE } from '@/constants';
+import { getGamePath } from '@/utils/games';
+
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://pika-casino-lobby.vercel.app';
 const siteName = 'Pika Casino';
 
-export default function StructuredData() {
+// Serialize a schema for a <script> tag - "<" is escaped so upstream text
+// (game names, descriptions) can't close the tag with "</script>"
+function toJsonLd(schema: object): string {
+  return JSON.stringify(schema).replace(/</g, '\\u003c');
+}
+
+interface StructuredDataProps {
+  locale?: Locale;
+}
+
+export default function StructuredData({ locale = DEFAULT_LOCALE }: StructuredDataProps) {
+  const lobbyUrl = `${siteUrl}/${locale}`;
+
   // Organization structured data
   const organizationSchema = {
     '@context': 'https://schema.org',
@@ -28,11 +44,12 @@ export default function StructuredData() {
     name: siteName,
     url: siteUrl,
     description: 'Browse and search through our collection of casino games',
+    inLanguage: locale,
     potentialAction: {
       '@type': 'SearchAction',
       target: {
         '@type': 'EntryPoint',
-        urlTemplate: `${siteUrl}/?search={search_term_string}`,
+        urlTemplate: `${lobbyUrl}?search={search_term_string}`,
       },
       'query-input': 'required name=search_term_string',
     },
@@ -53,7 +70,7 @@ export default function StructuredData() {
         '@type': 'ListItem',
         position: 2,
         name: 'Games Lobby',
-        item: `${siteUrl}/`,
+        item: `${siteUrl}/${locale}`,
       },
     ],
   };
@@ -64,7 +81,7 @@ export default function StructuredData() {
     '@type': 'CollectionPage',
     name: `${siteName} - Games Lobby`,
     description: 'Browse and search through our collection of casino games',
-    url: siteUrl,
+    url: lobbyUrl,
     mainEntity: {
       '@type': 'ItemList',
       name: 'Casino Games',
@@ -77,28 +94,110 @@ export default function StructuredData() {
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(organizationSchema),
+          __html: toJsonLd(organizationSchema),
         }}
       />
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(websiteSchema),
+          __html: toJsonLd(websiteSchema),
         }}
       />
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(breadcrumbSchema),
+          __html: toJsonLd(breadcrumbSchema),
         }}
       />
       <script
         type="application/ld+json"
         dangerouslySetInnerHTML={{
-          __html: JSON.stringify(collectionPageSchema),
+          __html: toJsonLd(collectionPageSchema),
         }}
       />
     </>
   );
 }
 
+
+interface GameStructuredDataProps {
+  game: GameTile;
+  locale: Locale;
+}
+
+/**
+ * Game Structured Data Component (JSON-LD)
+ * Per-game structured data for the game detail page
+ */
+export function GameStructuredData({ game, locale }: GameStructuredDataProps) {
+  const gameUrl = `${siteUrl}${getGamePath(game, locale)}`;
+
+  // VideoGame structured data
+  const gameSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'VideoGame',
+    name: game.name,
+    url: gameUrl,
+    ...(game.thumbnail && { image: game.thumbnail }),
+    ...(game.gameText && { description: game.gameText }),
+    ...(game.provider && {
+      author: {
+        '@type': 'Organization',
+        name: game.provider,
+        ...(game.providerLogo?.original?.src && { logo: game.providerLogo.original.src }),
+      },
+    }),
+    genre: game.isLiveGame ? 'Live Casino' : 'Casino',
+    inLanguage: locale,
+    playMode: 'SinglePlayer',
+    gamePlatform: 'Web browser',
+    isPartOf: {
+      '@type': 'WebSite',
+      name: siteName,
+      url: siteUrl,
+    },
+  };
+
+  // BreadcrumbList structured data
+  const breadcrumbSchema = {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: [
+      {
+        '@type': 'ListItem',
+        position: 1,
+        name: 'Home',
+        item: siteUrl,
+      },
+      {
+        '@type': 'ListItem',
+        position: 2,
+        name: 'Games Lobby',
+        item: `${siteUrl}/${locale}`,
+      },
+      {
+        '@type': 'ListItem',
+        position: 3,
+        name: game.name,
+        item: gameUrl,
+      },
+    ],
+  };
+
+  return (
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: toJsonLd(gameSchema),
+        }}
+      />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{
+          __html: toJsonLd(breadcrumbSchema),
+        }}
+      />
+    </>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * Virtual Games Grid Component
+ * Windowed games grid that keeps only the rows near the viewport mounted
+ * Used by GamesList for large result sets
+ */
+
+'use client';
+
+import { memo, useCallback, useLayoutEffect, useRef, useState } from 'react';
+import type { GameTile as GameTileType, SearchHighlights } from '@/types';
+import { useVirtualGrid } from '@/hooks/useVirtualGrid';
+import GameTile from './GameTile';
+import styles from './GamesList.module.scss';
+
+interface VirtualGamesGridProps {
+  games: GameTileType[];
+  highlights?: ReadonlyMap<string, SearchHighlights>; // Search matches by game id
+}
+
+// Index of the grid cell containing an element, or null when outside any cell
+const getCellIndex = (element: EventTarget | null): number | null => {
+  const cell = element instanceof Element ? element.closest<HTMLElement>('[data-index]') : null;
+  return cell ? Number(cell.dataset.index) : null;
+};
+
+function VirtualGamesGrid({ games, highlights }: VirtualGamesGridProps) {
+  const { containerRef, layout } = useVirtualGrid(games.length);
+  const { columns, rowHeight, startRow, endRow } = layout;
+  const rowCount = Math.ceil(games.length / columns);
+
+  // Cell holding keyboard focus - its row stays mounted even when scrolled out of view
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const gridRef = useRef<HTMLDivElement | null>(null);
+  // Set when focus has to be moved to focusedIndex after the next render
+  const moveFocusRef = useRef(false);
+
+  const setGridRef = useCallback((element: HTMLDivElement | null) => {
+    gridRef.current = element;
+    containerRef(element);
+  }, [containerRef]);
+
+  const focusedRow = focusedIndex !== null && focusedIndex < games.length
+    ? Math.floor(focusedIndex / columns)
+    : null;
+
+  const rowIndexes: number[] = [];
+  for (let row = startRow; row < endRow; row++) {
+    rowIndexes.push(row);
+  }
+  if (focusedRow !== null && (focusedRow < startRow || focusedRow >= endRow)) {
+    rowIndexes.push(focusedRow);
+  }
+
+  // Restore focus when the focused tile was remounted (e.g. it moved to another row
+  // after a column change) and move it after arrow key navigation
+  useLayoutEffect(() => {
+    const grid = gridRef.current;
+    if (!grid || focusedIndex === null) {
+      return;
+    }
+
+    const lostFocus = !document.activeElement || document.activeElement === document.body;
+    if (!moveFocusRef.current && !lostFocus) {
+      return;
+    }
+
+    const tile = grid.querySelector<HTMLElement>(`[data-index="${focusedIndex}"] [tabindex="0"]`);
+    if (tile) {
+      tile.focus({ preventScroll: lostFocus });
+      if (moveFocusRef.current) {
+        tile.scrollIntoView({ block: 'nearest' });
+      }
+    }
+    moveFocusRef.current = false;
+  });
+
+  const handleFocus = useCallback((e: React.FocusEvent) => {
+    setFocusedIndex(getCellIndex(e.target));
+  }, []);
+
+  const handleBlur = useCallback((e: React.FocusEvent<HTMLDivElement>) => {
+    // Focus left the grid (recycled rows don't fire blur, so their focus is restored above)
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setFocusedIndex(null);
+    }
+  }, []);
+
+  // Arrow keys move between tiles, so tiles outside the mounted rows stay reachable
+  const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+    const index = getCellIndex(e.target);
+    if (index === null) {
+      return;
+    }
+
+    const offsets: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columns,
+      ArrowDown: columns,
+    };
+
+    let nextIndex: number;
+    if (e.key in offsets) {
+      nextIndex = index + offsets[e.key];
+    } else if (e.key === 'Home') {
+      nextIndex = 0;
+    } else if (e.key === 'End') {
+      nextIndex = games.length - 1;
+    } else {
+      return;
+    }
+
+    e.preventDefault();
+    if (nextIndex >= 0 && nextIndex < games.length && nextIndex !== index) {
+      moveFocusRef.current = true;
+      setFocusedIndex(nextIndex);
+    }
+  }, [columns, games.length]);
+
+  return (
+    <div
+      ref={setGridRef}
+      className={styles.virtualGrid}
+      style={{ height: rowCount * rowHeight }}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
+      onKeyDown={handleKeyDown}
+      aria-label="Games"
+    >
+      {rowIndexes.map((row) => (
+        <div
+          key={row}
+          data-row-index={row}
+          className={styles.virtualRow}
+          style={{
+            transform: `translateY(${row * rowHeight}px)`,
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+          }}
+        >
+          {games.slice(row * columns, (row + 1) * columns).map((game, column) => {
+            const index = row * columns + column;
+            return (
+              <div key={game.id} data-index={index} className={styles.virtualCell}>
+                <GameTile game={game} index={index} highlights={highlights?.get(game.id)} />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default memo(VirtualGamesGrid);
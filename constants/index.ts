@@ -3,17 +3,65 @@
  */
 
 // API Configuration
+export const API_BASE_URL = 'https://casino.api.pikakasino.com/v1/pika'; // Upstream casino API
 export const API_TIMEOUT = 30000; // 30 seconds
+export const API_RETRY_TIME_BUDGET = 20000; // Give up retrying a request after 20 seconds
+export const SSR_RETRY_TIME_BUDGET = 3000; // Server rendering retries briefly, then renders without the data
+export const UPSTREAM_TIMEOUT = 10000; // Upstream requests of the API routes and server rendering
 export const INITIAL_LOADER_DELAY = 1000; // 1 second
 
 // Pagination
 export const INITIAL_PAGE_SIZE = 10;
 export const LOAD_MORE_INCREMENT = 10;
 export const MAX_PAGE_SIZE = 100;
+export const DEFAULT_SCROLL_MODE =
+  process.env.NEXT_PUBLIC_SCROLL_MODE === 'infinite' ? 'infinite' : 'paged'; // Users can switch in the toolbar
+export const INFINITE_SCROLL_ROOT_MARGIN = '400px'; // Start loading before the end of the list is visible
+export const GAMES_QUERY_TTL = 5 * 60 * 1000; // Fetched pages are reused for 5 minutes, then refetched
+export const GAMES_QUERY_CACHE_SIZE = 50; // Fetched pages kept in the store - the oldest are dropped
 
 // Search
 export const SEARCH_DEBOUNCE_MS = 500;
+export const MAX_SUGGESTIONS_PER_TYPE = 4; // Autocomplete rows per group (games, providers, ...)
+
+// Filters
+export const BET_SIZE_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 500, 1000]; // Stake options
 
 // UI
 export const INITIAL_LOADER_MIN_TIME = 1000; // Minimum time to show initial loader
+export const LOBBY_LAYOUT =
+  process.env.NEXT_PUBLIC_LOBBY_LAYOUT === 'home' ? 'home' : 'grid'; // "home": one rail per category on the landing view
+export const HOME_RAIL_SIZE = 12; // Games per category rail of the home layout
+
+// Games grid
+// Column count per viewport width - must match the media queries of .gamesGrid in
+// GamesList.module.scss, so the grid keeps its columns when it switches to virtualized
+export const GRID_BREAKPOINTS = [
+  { maxWidth: 768, columns: 2 },
+  { maxWidth: 1200, columns: 3 },
+] as const;
+export const GRID_MAX_COLUMNS = 4;
+export const VIRTUALIZATION_THRESHOLD = 60; // Window the grid beyond this many games
+export const VIRTUAL_GRID_OVERSCAN_ROWS = 2; // Rows kept mounted above and below the viewport
+export const VIRTUAL_GRID_ESTIMATED_ROW_HEIGHT = 320; // Until the first row is measured
+
+// Server cache (API routes)
+export const CACHE_BACKEND = process.env.CACHE_BACKEND === 'fs' ? 'fs' : 'memory'; // "fs" for single-node deployments
+export const CACHE_DIR = process.env.CACHE_DIR || ''; // fs backend directory, defaults to the OS temp dir
+export const CACHE_MAX_ENTRIES = 500; // Memory backend - least recently used entries are evicted
+export const CACHE_MAX_BYTES = 50 * 1024 * 1024; // Memory backend - approximate (JSON size of the entries)
+export const CACHE_LAST_KNOWN_GOOD_TTL = 7 * 24 * 60 * 60 * 1000; // Fallback copies served while the upstream is down
+export const CACHE_LAST_KNOWN_GOOD_MAX_ENTRIES = 100; // Own LRU store - regular cache traffic doesn't evict fallback copies
+export const CACHE_LAST_KNOWN_GOOD_MAX_BYTES = 20 * 1024 * 1024; // Approximate, like CACHE_MAX_BYTES
+
+// Localization
+export const SUPPORTED_LOCALES = ['en', 'fi', 'sv', 'no', 'de'] as const;
+export const DEFAULT_LOCALE = 'en';
+export const FALLBACK_LOCALE = 'en'; // Used when the upstream lacks a translation
 
+// Persistence (localStorage keys)
+export const FAVORITES_STORAGE_KEY = 'pika:favorites';
+export const RECENTLY_PLAYED_STORAGE_KEY = 'pika:recently-played';
+export const MAX_RECENTLY_PLAYED = 12; // Oldest entries are dropped beyond this
+export const RECENT_SEARCHES_STORAGE_KEY = 'pika:recent-searches';
+export const MAX_RECENT_SEARCHES = 5;
@@ -0,0 +1,41 @@
+/**
+ * Custom hook for infinite scrolling
+ * Calls onLoadMore whenever the returned sentinel element scrolls into view
+ * @param onLoadMore - Called when more items should be loaded
+ * @param enabled - Whether to observe (false while loading or when everything is loaded)
+ * @returns Ref callback for the sentinel element rendered after the list
+ */
+
+import { useEffect, useState } from 'react';
+import { INFINITE_SCROLL_ROOT_MARGIN } from '@/constants';
+
+export function useInfiniteScroll(
+  onLoadMore: () => void,
+  enabled: boolean
+): (element: HTMLElement | null) => void {
+  // State rather than a ref so observing starts once the sentinel is actually mounted
+  const [sentinel, setSentinel] = useState<HTMLElement | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    // Observing fires immediately when the sentinel is already visible,
+    // so loading continues until the viewport is filled
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          observer.disconnect();
+          onLoadMore();
+        }
+      },
+      { rootMargin: INFINITE_SCROLL_ROOT_MARGIN }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [enabled, sentinel, onLoadMore]);
+
+  return setSentinel;
+}
@@ -0,0 +1,108 @@
+/**
+ * Custom hook for mirroring the lobby view to the URL
+ * Keeps the selected category, search query and page number in the query string
+ * so links, refreshes and back/forward navigation reproduce the same view
+ */
+
+import { useEffect, useRef } from 'react';
+import { usePathname, useSearchParams } from 'next/navigation';
+import { useAppDispatch, useAppSelector } from '@/store/hooks';
+import { setSelectedCategory } from '@/store/slices/categoriesSlice';
+import { FAVORITES_CATEGORY } from '@/store/slices/favoritesSlice';
+import { setPageNumber, setSearchQuery } from '@/store/slices/gamesSlice';
+import {
+  selectCategoriesWithSelection,
+  selectPageNumber,
+  selectScrollMode,
+  selectSearchQuery,
+} from '@/store/selectors';
+import { buildLobbyQuery, parseLobbyQuery, type LobbyQuery } from '@/utils/lobbyQuery';
+
+export function useLobbyUrlSync(): void {
+  const dispatch = useAppDispatch();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const { categories, selectedCategory } = useAppSelector(selectCategoriesWithSelection);
+  const searchQuery = useAppSelector(selectSearchQuery);
+  const pageNumber = useAppSelector(selectPageNumber);
+  // In infinite mode the page number only counts loaded pages - it is not a shareable view
+  const isInfinite = useAppSelector(selectScrollMode) === 'infinite';
+
+  const storeQuery = buildLobbyQuery({
+    category: selectedCategory?.id,
+    search: searchQuery,
+    page: isInfinite ? 1 : pageNumber,
+  });
+  const urlQuery = buildLobbyQuery(parseLobbyQuery(searchParams));
+
+  // Last lobby view both the URL and the store agreed on (null until the URL was applied)
+  const lastSyncedRef = useRef<LobbyQuery | null>(null);
+
+  // Current store view for the URL -> store effect, which only reacts to URL and category list
+  // changes - kept up to date by an effect declared before it, so it never reads a stale view
+  const storeViewRef = useRef({ selectedCategory, searchQuery, pageNumber, isInfinite });
+  useEffect(() => {
+    storeViewRef.current = { selectedCategory, searchQuery, pageNumber, isInfinite };
+  });
+
+  // Store -> URL: declared first so it never writes a stale view in the same commit
+  // in which the URL is being applied to the store
+  useEffect(() => {
+    const lastSynced = lastSyncedRef.current;
+    if (!lastSynced || storeQuery === buildLobbyQuery(lastSynced)) {
+      return;
+    }
+
+    const nextQuery: LobbyQuery = parseLobbyQuery(new URLSearchParams(storeQuery));
+    const queryString = buildLobbyQuery(nextQuery, new URLSearchParams(window.location.search));
+    const url = `${pathname}${queryString ? `?${queryString}` : ''}`;
+
+    // Typing a search refines the current view - don't add a history entry per keystroke
+    const onlySearchChanged =
+      nextQuery.category === lastSynced.category && nextQuery.page === lastSynced.page;
+    if (onlySearchChanged) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+
+    lastSyncedRef.current = nextQuery;
+  }, [storeQuery, pathname]);
+
+  // URL -> store: initial load and back/forward navigation
+  useEffect(() => {
+    // Categories are needed to resolve the category id
+    if (categories.length === 0) {
+      return;
+    }
+    if (lastSyncedRef.current && urlQuery === buildLobbyQuery(lastSyncedRef.current)) {
+      return;
+    }
+
+    const { selectedCategory, searchQuery, pageNumber, isInfinite } = storeViewRef.current;
+
+    const query = parseLobbyQuery(new URLSearchParams(urlQuery));
+    if (isInfinite) {
+      query.page = 1;
+    }
+    const category = query.category === FAVORITES_CATEGORY.id
+      ? FAVORITES_CATEGORY
+      : categories.find((cat) => cat.id === query.category) || selectedCategory;
+
+    const categoryChanged = !!category && category.id !== selectedCategory?.id;
+    const searchChanged = query.search !== searchQuery;
+
+    // Order matters: selecting a category and searching both reset the page number
+    if (categoryChanged) {
+      dispatch(setSelectedCategory(category));
+    }
+    if (searchChanged) {
+      dispatch(setSearchQuery(query.search));
+    }
+    if (categoryChanged || searchChanged || (!isInfinite && query.page !== pageNumber)) {
+      dispatch(setPageNumber(query.page));
+    }
+
+    lastSyncedRef.current = { ...query, category: category?.id };
+  }, [urlQuery, categories, dispatch]);
+}
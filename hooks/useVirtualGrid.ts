@@ -0,0 +1,102 @@
+/**
+ * Custom hook for windowing a responsive grid scrolled with the page
+ * Works out the column count for the viewport and which rows are near the viewport
+ * @param itemCount - Number of items in the grid
+ * @returns Ref callback for the grid container and the current layout
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  GRID_MAX_COLUMNS,
+  VIRTUAL_GRID_ESTIMATED_ROW_HEIGHT,
+  VIRTUAL_GRID_OVERSCAN_ROWS,
+} from '@/constants';
+import { getGridColumns } from '@/utils/grid';
+
+export interface VirtualGridLayout {
+  columns: number;
+  rowHeight: number; // Row pitch in pixels, including the gap below the row
+  startRow: number; // First mounted row (inclusive)
+  endRow: number; // Last mounted row (exclusive)
+}
+
+// Before the first measurement (and during SSR) render the first rows of a desktop layout
+const INITIAL_LAYOUT: VirtualGridLayout = {
+  columns: GRID_MAX_COLUMNS,
+  rowHeight: VIRTUAL_GRID_ESTIMATED_ROW_HEIGHT,
+  startRow: 0,
+  endRow: 3,
+};
+
+const isSameLayout = (a: VirtualGridLayout, b: VirtualGridLayout) =>
+  a.columns === b.columns &&
+  a.rowHeight === b.rowHeight &&
+  a.startRow === b.startRow &&
+  a.endRow === b.endRow;
+
+export function useVirtualGrid(itemCount: number): {
+  containerRef: (element: HTMLElement | null) => void;
+  layout: VirtualGridLayout;
+} {
+  // State rather than a ref so measuring starts once the container is actually mounted
+  const [container, setContainer] = useState<HTMLElement | null>(null);
+  const [layout, setLayout] = useState<VirtualGridLayout>(INITIAL_LAYOUT);
+
+  useEffect(() => {
+    if (!container) {
+      return;
+    }
+
+    let frame: number | null = null;
+
+    const measure = () => {
+      frame = null;
+      const columns = getGridColumns(window.innerWidth);
+      const rowCount = Math.ceil(itemCount / columns);
+
+      // Rows share the tile aspect ratio, so one mounted row gives the pitch of all of them
+      const row = container.querySelector<HTMLElement>('[data-row-index]');
+      setLayout((prev) => {
+        const rowHeight = row?.offsetHeight || prev.rowHeight;
+        const top = container.getBoundingClientRect().top;
+        const startRow = Math.min(
+          rowCount,
+          Math.max(0, Math.floor(-top / rowHeight) - VIRTUAL_GRID_OVERSCAN_ROWS)
+        );
+        const endRow = Math.min(
+          rowCount,
+          Math.max(startRow, Math.ceil((window.innerHeight - top) / rowHeight) + VIRTUAL_GRID_OVERSCAN_ROWS)
+        );
+        const next = { columns, rowHeight, startRow, endRow };
+        return isSameLayout(prev, next) ? prev : next;
+      });
+    };
+
+    // Measure at most once per frame
+    const scheduleMeasure = () => {
+      if (frame === null) {
+        frame = window.requestAnimationFrame(measure);
+      }
+    };
+
+    scheduleMeasure();
+    window.addEventListener('scroll', scheduleMeasure, { passive: true });
+    window.addEventListener('resize', scheduleMeasure);
+
+    // Tile heights follow the container width
+    const resizeObserver =
+      typeof ResizeObserver !== 'undefined' ? new ResizeObserver(scheduleMeasure) : null;
+    resizeObserver?.observe(container);
+
+    return () => {
+      if (frame !== null) {
+        window.cancelAnimationFrame(frame);
+      }
+      window.removeEventListener('scroll', scheduleMeasure);
+      window.removeEventListener('resize', scheduleMeasure);
+      resizeObserver?.disconnect();
+    };
+  }, [container, itemCount]);
+
+  return { containerRef: setContainer, layout };
+}
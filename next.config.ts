@@ -1,6 +1,27 @@
 import type { NextConfig } from "next";
+import { execSync } from "node:child_process";
+
+// Identifies the build - the service worker versions its caches with it
+// BUILD_ID can be set by CI; otherwise the commit, so every build of a commit gets the same ID
+// Without git (e.g. Docker builds without .git) the build time, so every deploy still gets its own ID
+function getBuildId(): string {
+  if (process.env.BUILD_ID) {
+    return process.env.BUILD_ID;
+  }
+  try {
+    return execSync("git rev-parse --short HEAD", { stdio: ["ignore", "pipe", "ignore"] }).toString().trim();
+  } catch {
+    return `build-${Date.now().toString(36)}`;
+  }
+}
+
+const buildId = getBuildId();
 
 const nextConfig: NextConfig = {
+  generateBuildId: () => buildId,
+  env: {
+    NEXT_PUBLIC_BUILD_ID: buildId,
+  },
   // Image optimization configuration
   images: {
     remotePatterns: [
@@ -0,0 +1,28 @@
+/**
+ * Next.js Proxy
+ * Redirects requests without a locale segment to the visitor's market,
+ * e.g. "/" -> "/fi" or "/games/book-of-dead" -> "/en/games/book-of-dead"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocaleFromPath, negotiateLocale } from '@/utils/locale';
+
+export function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (getLocaleFromPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  const locale = negotiateLocale(request.headers.get('accept-language'));
+  const url = request.nextUrl.clone();
+  url.pathname = `/${locale}${pathname === '/' ? '' : pathname}`;
+  url.search = search;
+
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Skip API routes, Next.js internals and static files (anything with an extension)
+  matcher: ['/((?!api|_next|.*\\..*).*)'],
+};
@@ -1,15 +1,208 @@
 /**
  * Service Worker
- * Empty service worker to prevent 404 errors
+ * Offline support and asset caching:
+ * - App shell (hashed build assets) precached on request of the page, kept for the whole build
+ * - Network-first with cache fallback for pages, bounded to the most recently visited ones
+ * - Network-first with cache fallback for /api/config and /api/games
+ * - Cache-first for game thumbnails, bounded to the most recently added entries
+ * - Caches of older versions are deleted on activate
  */
 
-self.addEventListener('install', () => {
-  // Skip waiting to activate immediately
-  self.skipWaiting();
+// Build ID the page registered the worker with (utils/serviceWorker.ts) -
+// every build drops the caches of the previous one on activate
+const CACHE_VERSION = new URL(self.location.href).searchParams.get('v') || 'dev';
+const CACHE_PREFIX = 'pika-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${CACHE_VERSION}`;
+const PAGES_CACHE = `${CACHE_PREFIX}pages-${CACHE_VERSION}`;
+const API_CACHE = `${CACHE_PREFIX}api-${CACHE_VERSION}`;
+const THUMBNAIL_CACHE = `${CACHE_PREFIX}thumbnails-${CACHE_VERSION}`;
+const CURRENT_CACHES = [SHELL_CACHE, PAGES_CACHE, API_CACHE, THUMBNAIL_CACHE];
+
+const MAX_PAGE_ENTRIES = 50; // Visited pages (every query and game page) - oldest are evicted beyond this
+const MAX_API_ENTRIES = 100; // Distinct config/games requests kept for offline use
+const MAX_THUMBNAIL_ENTRIES = 300; // Oldest thumbnails are evicted beyond this
+
+// Always part of the shell - the hashed assets are added by the page (CACHE_URLS)
+// Not trimmed: the assets belong to one build and go with its caches on activate
+const SHELL_URLS = ['/favicon.ico'];
+
+// API responses available offline
+const OFFLINE_API_PATHS = ['/api/config', '/api/games'];
+
+// Thumbnails come through the image optimizer or straight from the casino CDN
+const THUMBNAIL_HOST_PATTERN = /(^|\.)pikakasino\.com$/;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      // Skip waiting to activate immediately
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(CACHE_PREFIX) && !CURRENT_CACHES.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      // Take control of all pages immediately
+      .then(() => self.clients.claim())
+  );
 });
 
-self.addEventListener('activate', () => {
-  // Take control of all pages immediately
-  self.clients.claim();
+// The page sends the URLs it was built from (its own URL and /_next/static assets),
+// since hashed asset names aren't known to the worker
+self.addEventListener('message', (event) => {
+  const { data } = event;
+  if (!data || data.type !== 'CACHE_URLS' || !Array.isArray(data.urls)) {
+    return;
+  }
+
+  const urls = data.urls
+    .filter((url) => typeof url === 'string')
+    .map((url) => new URL(url, self.location.origin))
+    .filter((url) => url.origin === self.location.origin);
+  const assetUrls = urls.filter((url) => isBuildAsset(url));
+  const pageUrls = urls.filter((url) => !isBuildAsset(url));
+
+  event.waitUntil(
+    Promise.all([
+      precache(SHELL_CACHE, assetUrls),
+      precache(PAGES_CACHE, pageUrls).then((cache) => trimCache(cache, MAX_PAGE_ENTRIES)),
+    ])
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      networkFirst(request, PAGES_CACHE, { maxEntries: MAX_PAGE_ENTRIES, fallbackToShell: true })
+    );
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (OFFLINE_API_PATHS.includes(url.pathname)) {
+      event.respondWith(networkFirst(request, API_CACHE, { maxEntries: MAX_API_ENTRIES }));
+      return;
+    }
+    if (url.pathname === '/_next/image') {
+      event.respondWith(cacheFirst(request, THUMBNAIL_CACHE, MAX_THUMBNAIL_ENTRIES));
+      return;
+    }
+    // Hashed build assets never change
+    if (isBuildAsset(url)) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE));
+    }
+    return;
+  }
+
+  if (request.destination === 'image' && THUMBNAIL_HOST_PATTERN.test(url.hostname)) {
+    event.respondWith(cacheFirst(request, THUMBNAIL_CACHE, MAX_THUMBNAIL_ENTRIES));
+  }
 });
 
+// Hashed JS/CSS of the build
+function isBuildAsset(url) {
+  return url.pathname.startsWith('/_next/static/');
+}
+
+// Add URLs to a cache - one failing URL must not keep the others out
+async function precache(cacheName, urls) {
+  const cache = await caches.open(cacheName);
+  await Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)));
+  return cache;
+}
+
+/**
+ * Fetch from the network and keep a copy; serve the copy when the network fails
+ * @param request - Request to answer
+ * @param cacheName - Cache the response is stored in
+ * @param options - maxEntries bounds the cache, fallbackToShell serves the
+ *   lobby page of the same locale for navigations that were never cached
+ * @returns Network response, cached copy, or a 503 response when neither is available
+ */
+async function networkFirst(request, cacheName, { maxEntries, fallbackToShell = false } = {}) {
+  const cache = await caches.open(cacheName);
+
+  try {
+    const response = await fetch(request);
+    // Redirected responses can't answer navigations (e.g. "/" redirects to the visitor's market)
+    if (response.ok && !response.redirected) {
+      await cache.put(request, response.clone());
+      if (maxEntries) {
+        await trimCache(cache, maxEntries);
+      }
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await cache.match(request)) ||
+      (fallbackToShell && (await matchShellPage(cache, new URL(request.url))));
+    if (cached) {
+      return cached;
+    }
+    if (request.mode === 'navigate') {
+      throw error;
+    }
+    return new Response(JSON.stringify({ error: 'Offline' }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+}
+
+// The same page with another query (e.g. another category), or the locale's lobby page
+async function matchShellPage(cache, url) {
+  const locale = url.pathname.split('/')[1];
+  return (
+    (await cache.match(url.pathname, { ignoreSearch: true })) ||
+    (locale ? await cache.match(`/${locale}`, { ignoreSearch: true }) : undefined)
+  );
+}
+
+/**
+ * Serve from the cache, fetching (and keeping) the response on a miss
+ * @param request - Request to answer
+ * @param cacheName - Cache the response is stored in
+ * @param maxEntries - Optional bound, the oldest entries are evicted beyond it
+ * @returns Cached or network response
+ */
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+  // Cross-origin images without CORS are opaque (status 0) but still usable
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    if (maxEntries) {
+      await trimCache(cache, maxEntries);
+    }
+  }
+  return response;
+}
+
+// Delete the oldest entries (keys are in insertion order) beyond maxEntries
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
@@ -8,119 +8,231 @@ import type {
   GameTile,
   GamesTilesParams,
   GamesTilesResponse,
+  Locale,
+  MenuItem,
 } from '@/types';
-import { API_TIMEOUT } from '@/constants';
-import { retryWithBackoff } from '@/utils/retry';
+import {
+  API_BASE_URL,
+  API_RETRY_TIME_BUDGET,
+  DEFAULT_LOCALE,
+  INITIAL_PAGE_SIZE,
+  SSR_RETRY_TIME_BUDGET,
+} from '@/constants';
+import { HttpError, retryWithBackoff } from '@/utils/retry';
+import { SingleFlight } from '@/utils/singleFlight';
+import { getCategoryEndpoint, getCategorySlug } from '@/utils/categories';
+import { slugify } from '@/utils/slug';
+import { adaptGameListComponent, adaptGames } from './gameAdapter';
 import { logger } from '@/utils/logger';
+import { getLocaleFromPath, isLobbyPagePath, isTilesPath } from '@/utils/locale';
 
-// API_BASE_URL is defined in app/api/games/route.ts and app/api/config/route.ts
+const COLLECTION_TOTAL_REUSE_MS = 60000; // Same as the /api/games cache TTL
+
+// Total lookups of game collections, shared by concurrent and recent requests
+const collectionTotals = new SingleFlight();
 
 /**
- * Fetches the configuration including menu lobby categories
- * @returns Promise with categories array
+ * Resolves a category's getPage URL to the upstream path requested through our API routes
+ * @param getPageUrl - The URL from category.getPage property
+ * @param localeParam - Requested locale, defaults to the locale in the path
+ * @returns Upstream path and locale
  */
-export async function fetchConfig(): Promise<Category[]> {
-  return retryWithBackoff(async () => {
-    // On server, use absolute URL for API route or call API directly with longer timeout
-    // On client, use relative URL for API route
-    const isServer = typeof window === 'undefined';
-    let apiUrl: string;
-    
-    if (isServer) {
-      // On server, call API directly with longer timeout
-      // Using API route on server requires absolute URL which is complex
-      apiUrl = 'https://casino.api.pikakasino.com/v1/pika/en/config';
+function resolveCategoryPath(
+  getPageUrl: string,
+  localeParam?: Locale
+): { categoryPath: string; locale: Locale } {
+  // getPageUrl might be like "/casino", "/pages/en/casino", "/en/games/tiles", or full URL
+  // The locale comes from params, or from the category path itself
+  let categoryPath = getPageUrl;
+  if (getPageUrl.startsWith('http://') || getPageUrl.startsWith('https://')) {
+    // Extract path from full URL (e.g., "https://.../pages/en/casino" -> "/pages/en/casino")
+    const urlObj = new URL(getPageUrl);
+    categoryPath = urlObj.pathname;
+  } else if (!getPageUrl.startsWith('/')) {
+    categoryPath = `/${getPageUrl}`;
+  }
+  
+  const locale = localeParam || getLocaleFromPath(categoryPath) || DEFAULT_LOCALE;
+  
+  // Special handling for different endpoint types:
+  // - "/en/games/tiles" - use as-is (for Lobby/all games)
+  // - "/pages/en/casino/new-games" - use as-is (for specific categories)
+  // - "/casino" - convert to "/pages/en/casino" (but this doesn't work, so use /en/games/tiles)
+  if (isLobbyPagePath(categoryPath)) {
+    // Lobby category - use /{locale}/games/tiles endpoint
+    categoryPath = `/${locale}/games/tiles`;
+  } else if (!categoryPath.startsWith('/pages/') && !isTilesPath(categoryPath)) {
+    // Other categories - convert to /pages/{locale}/casino/new-games structure
+    categoryPath = `/pages/${locale}${categoryPath}`;
+  }
+
+  return { categoryPath, locale };
+}
+
+/**
+ * Maps a config menu item to a Category
+ * @param menuItem - Item of menu.lobby.items
+ * @param locale - Locale of the config request
+ * @returns Category, or null if the item has no page to fetch games from
+ */
+function toCategory(menuItem: MenuItem, locale: Locale): Category | null {
+  // Extract getPage from links.getPage or use path
+  // links.getPage contains full URL like "https://casino.api.pikakasino.com/v1/pika/pages/en/casino"
+  // For "Lobby" category (path="/casino"), use /{locale}/games/tiles instead
+  // For other categories, use /pages/{locale}/casino/new-games structure
+  let getPage = menuItem.getPage || menuItem.url || menuItem.path || '';
+  let linkPath = '';
+  
+  if (menuItem.links?.getPage) {
+    try {
+      // Relative to the API base URL, e.g. "https://.../v1/pika/pages/en/casino" -> "/pages/en/casino"
+      const { pathname } = new URL(menuItem.links.getPage);
+      const basePath = new URL(API_BASE_URL).pathname;
+      linkPath = pathname.startsWith(`${basePath}/`) ? pathname.slice(basePath.length) : pathname;
+    } catch {
+      // If URL parsing fails, use path if available
+    }
+  }
+  
+  if (!getPage && linkPath) {
+    // Special case: if path is "/pages/{locale}/casino" (Lobby), use /{locale}/games/tiles
+    // For other categories, keep /pages/{locale}/casino/new-games structure
+    if (isLobbyPagePath(linkPath) || menuItem.path === '/casino') {
+      getPage = `/${getLocaleFromPath(linkPath) || locale}/games/tiles`;
     } else {
-      // On client, use API route to avoid CORS
-      apiUrl = '/api/config';
+      getPage = linkPath;
+    }
+  }
+  
+  // If still no getPage and we have path="/casino", use /{locale}/games/tiles
+  if (!getPage && menuItem.path === '/casino') {
+    getPage = `/${locale}/games/tiles`;
+  }
+  
+  if (!getPage) {
+    return null;
+  }
+  
+  const name = menuItem.title || menuItem.name || menuItem.label || 'Unnamed Category';
+  
+  // Slugs come from the locale-free menu path first, so they match across markets
+  const slug =
+    menuItem.slug ||
+    getCategorySlug(menuItem.path || linkPath || getPage) ||
+    slugify(name) ||
+    'category';
+  
+  return {
+    id: menuItem.id || slug,
+    slug,
+    name,
+    getPage,
+    endpoint: getCategoryEndpoint(getPage),
+  };
+}
+
+/**
+ * Makes derived category ids and slugs unique by numbering repeats ("live", "live-2")
+ * Deterministic - the same config always yields the same ids
+ */
+function withUniqueIds(categories: Category[]): Category[] {
+  const seen = new Map<string, number>();
+  return categories.map((category) => {
+    const count = (seen.get(category.id) || 0) + 1;
+    seen.set(category.id, count);
+    return count === 1
+      ? category
+      : { ...category, id: `${category.id}-${count}`, slug: `${category.slug}-${count}` };
+  });
+}
+
+/**
+ * Requests games through /api/games
+ * Server rendering can't call the route (relative URLs don't resolve there) - it runs the
+ * route's loader instead, with the same cache, request coalescing and circuit breaker
+ * @param searchParams - Query parameters of /api/games
+ * @param signal - Cancels the request (client only)
+ * @returns Response of the route
+ */
+async function fetchGamesRoute(searchParams: URLSearchParams, signal?: AbortSignal): Promise<Response> {
+  // Inline typeof check - the server-only loader is left out of the client bundle
+  if (typeof window === 'undefined') {
+    const { getGames, parseGamesQuery, toGamesResponse } = await import('./upstreamGames');
+    return toGamesResponse(await getGames(parseGamesQuery(searchParams)));
+  }
+  return fetch(`/api/games?${searchParams.toString()}`, { signal });
+}
+
+/**
+ * Requests the config through /api/config, or its loader during server rendering
+ * (see fetchGamesRoute)
+ * @param locale - Market locale
+ * @returns Response of the route
+ */
+async function fetchConfigRoute(locale: Locale): Promise<Response> {
+  if (typeof window === 'undefined') {
+    const { getConfig, toConfigResponse } = await import('./upstreamConfig');
+    return toConfigResponse(await getConfig(locale));
+  }
+  return fetch(`/api/config?locale=${locale}`, {
+    headers: {
+      'Accept': 'application/json',
+      'User-Agent': 'Mozilla/5.0',
+    },
+  });
+}
+
+/**
+ * Fetches the real total of a game collection from /{locale}/games/tiles
+ * Page categories only list their first games - every page of such a category
+ * needs the same total, so the lookup is shared instead of repeated
+ * @param collectionName - e.g. "new-games"
+ * @param locale - Market locale
+ * @returns Total number of games, or undefined if the response has no count
+ */
+function fetchCollectionTotal(collectionName: string, locale: Locale): Promise<number | undefined> {
+  return collectionTotals.run(`${locale}:${collectionName}`, async () => {
+    const tilesResponse = await fetchGamesRoute(new URLSearchParams({
+      category: `/${locale}/games/tiles`,
+      gameCollections: collectionName,
+      pageNumber: '1',
+      pageSize: '1',
+      locale,
+    }));
+    if (!tilesResponse.ok) {
+      throw new HttpError(`Failed to fetch collection total: ${tilesResponse.status} ${tilesResponse.statusText}`, tilesResponse);
     }
+    const tilesData = await tilesResponse.json();
+    return typeof tilesData.count === 'number' ? tilesData.count : undefined;
+  }, COLLECTION_TOTAL_REUSE_MS);
+}
 
-    const response = await fetch(apiUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'Mozilla/5.0',
-      },
-      // Increase timeout for server-side requests
-      ...(isServer && { signal: AbortSignal.timeout(API_TIMEOUT) }),
-    });
+/**
+ * Fetches the configuration including menu lobby categories
+ * @param locale - Market locale, falls back to FALLBACK_LOCALE if the upstream lacks it
+ * @returns Promise with categories array
+ */
+export async function fetchConfig(locale: Locale = DEFAULT_LOCALE): Promise<Category[]> {
+  return retryWithBackoff(async () => {
+    // Use API route to avoid CORS - server rendering runs the route's loader
+    const response = await fetchConfigRoute(locale);
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch config: ${response.statusText}`);
+      throw new HttpError(`Failed to fetch config: ${response.statusText}`, response);
     }
 
     const data: ConfigResponse = await response.json();
     
     // Extract categories from the response
     // The API returns categories in menu.lobby.items structure
-    if (data.menu?.lobby?.items && Array.isArray(data.menu.lobby.items)) {
-      // Map the menu items to Category format
-      return data.menu.lobby.items
-        .map((item) => {
-          const menuItem = item as {
-            id?: string;
-            slug?: string;
-            title?: string;
-            name?: string;
-            label?: string;
-            getPage?: string;
-            url?: string;
-            path?: string;
-            links?: {
-              getPage?: string;
-              getPageMetadata?: string;
-            };
-          };
-          
-          // Extract getPage from links.getPage or use path
-          // links.getPage contains full URL like "https://casino.api.pikakasino.com/v1/pika/pages/en/casino"
-          // For "Lobby" category (path="/casino"), use /en/games/tiles instead
-          // For other categories, use /pages/en/casino/new-games structure
-          let getPage = menuItem.getPage || menuItem.url || menuItem.path || '';
-          
-          if (!getPage && menuItem.links?.getPage) {
-            // Extract path from full URL
-            try {
-              const urlObj = new URL(menuItem.links.getPage);
-              const fullPath = urlObj.pathname; // e.g., "/pages/en/casino"
-              
-              // Special case: if path is "/pages/en/casino" (Lobby), use /en/games/tiles
-              if (fullPath === '/pages/en/casino' || menuItem.path === '/casino') {
-                getPage = '/en/games/tiles';
-              } else if (fullPath.startsWith('/pages/en')) {
-                // For other categories, keep /pages/en/casino/new-games structure
-                getPage = fullPath;
-              } else {
-                getPage = fullPath;
-              }
-            } catch {
-              // If URL parsing fails, use path if available
-              getPage = menuItem.path || '';
-            }
-          }
-          
-          // If still no getPage and we have path="/casino", use /en/games/tiles
-          if (!getPage && menuItem.path === '/casino') {
-            getPage = '/en/games/tiles';
-          }
-          
-          return {
-            id: menuItem.id || menuItem.slug || String(Math.random()),
-            name: menuItem.title || menuItem.name || menuItem.label || 'Unnamed Category',
-            getPage: getPage || menuItem.path || '',
-          };
-        })
-        .filter((cat: Category) => cat.getPage); // Filter out items without getPage
-    }
-    
     // Fallback: try direct categories array
-    if (Array.isArray(data.categories)) {
-      return data.categories;
-    }
-    
-    // If categories is not directly available, try to find it in the response
-    const categories = (data as unknown as { categories?: Category[] }).categories;
-    if (categories) {
-      return categories;
+    const items = data.menu?.lobby?.items || data.categories;
+    if (Array.isArray(items)) {
+      return withUniqueIds(
+        items
+          .map((item) => toCategory(item, locale))
+          .filter((category): category is Category => category !== null) // Filter out items without getPage
+      );
     }
 
     logger.warn('Unexpected config response structure', { data });
@@ -129,6 +241,8 @@ export async function fetchConfig(): Promise<Category[]> {
     maxRetries: 3,
     initialDelay: 1000,
     maxDelay: 10000,
+    // Server rendering doesn't wait out an upstream outage - the client fetches the config again
+    maxElapsedTime: typeof window === 'undefined' ? SSR_RETRY_TIME_BUDGET : API_RETRY_TIME_BUDGET,
   });
 }
 
@@ -160,13 +274,21 @@ export async function fetchGamesTiles(
       searchParams.append('category', params.category);
     }
 
+    if (params.locale) {
+      searchParams.append('locale', params.locale);
+    }
+
+    if (params.providers && params.providers.length > 0) {
+      searchParams.append('providers', params.providers.join(','));
+    }
+
     const queryString = searchParams.toString();
     const apiUrl = `/api/games${queryString ? `?${queryString}` : ''}`;
 
     const response = await fetch(apiUrl);
 
     if (!response.ok) {
-      throw new Error(`Failed to fetch games: ${response.statusText}`);
+      throw new HttpError(`Failed to fetch games: ${response.statusText}`, response);
     }
 
     const data: GamesTilesResponse = await response.json();
@@ -175,6 +297,7 @@ export async function fetchGamesTiles(
     maxRetries: 3,
     initialDelay: 1000,
     maxDelay: 10000,
+    maxElapsedTime: API_RETRY_TIME_BUDGET,
   });
 }
 
@@ -182,42 +305,21 @@ export async function fetchGamesTiles(
  * Fetches games for a specific category using the getPage URL
  * @param getPageUrl - The URL from category.getPage property
  * @param params - Additional query parameters
+ * @param options - signal cancels the request and its retries
  * @returns Promise with games array
  */
 export async function fetchCategoryGames(
   getPageUrl: string,
-  params: Omit<GamesTilesParams, 'category'> = {}
+  params: Omit<GamesTilesParams, 'category'> = {},
+  { signal }: { signal?: AbortSignal } = {}
 ): Promise<GamesTilesResponse> {
   return retryWithBackoff(async () => {
     // Use Next.js API route to avoid CORS issues
     // The API route will handle the actual fetch to the external API
     const searchParams = new URLSearchParams();
-    
-    // Extract category path from getPageUrl
-    // getPageUrl might be like "/casino", "/pages/en/casino", "/en/games/tiles", or full URL
-    let categoryPath = getPageUrl;
-    if (getPageUrl.startsWith('http://') || getPageUrl.startsWith('https://')) {
-      // Extract path from full URL (e.g., "https://.../pages/en/casino" -> "/pages/en/casino")
-      const urlObj = new URL(getPageUrl);
-      categoryPath = urlObj.pathname;
-    } else if (!getPageUrl.startsWith('/')) {
-      categoryPath = `/${getPageUrl}`;
-    }
-    
-    // Special handling for different endpoint types:
-    // - "/en/games/tiles" - use as-is (for Lobby/all games)
-    // - "/pages/en/casino/new-games" - use as-is (for specific categories)
-    // - "/casino" - convert to "/pages/en/casino" (but this doesn't work, so use /en/games/tiles)
-    if (categoryPath === '/casino' || categoryPath === '/pages/en/casino') {
-      // Lobby category - use /en/games/tiles endpoint
-      categoryPath = '/en/games/tiles';
-    } else if (!categoryPath.startsWith('/pages/en') && !categoryPath.startsWith('/en/games/tiles')) {
-      // Other categories - convert to /pages/en/casino/new-games structure
-      categoryPath = `/pages/en${categoryPath}`;
-    }
-    
-    // Use our Next.js API route as proxy
+    const { categoryPath, locale } = resolveCategoryPath(getPageUrl, params.locale);
     searchParams.append('category', categoryPath);
+    searchParams.append('locale', locale);
     
     if (params.search) {
       searchParams.append('search', params.search);
@@ -225,9 +327,7 @@ export async function fetchCategoryGames(
     
     // Check if endpoint supports pagination
     // /en/games/tiles supports pagination, but /pages/en/casino/* endpoints don't
-    const supportsPagination = categoryPath.includes('/en/games/tiles') || 
-                               categoryPath === '/casino' || 
-                               categoryPath === '/pages/en/casino';
+    const supportsPagination = getCategoryEndpoint(categoryPath) === 'tiles';
     
     // Only add pagination parameters if endpoint supports them
     if (supportsPagination) {
@@ -238,13 +338,16 @@ export async function fetchCategoryGames(
       if (params.pageSize !== undefined) {
         searchParams.append('pageSize', params.pageSize.toString());
       }
+
+      // Provider filter is only supported by the tiles endpoint as well
+      if (params.providers && params.providers.length > 0) {
+        searchParams.append('providers', params.providers.join(','));
+      }
     }
     // For /pages/en/casino/* endpoints, don't pass pagination - they return all games
 
-    const queryString = searchParams.toString();
-    const apiUrl = `/api/games?${queryString}`;
-
-    const response = await fetch(apiUrl);
+    const apiUrl = `/api/games?${searchParams.toString()}`;
+    const response = await fetchGamesRoute(searchParams, signal);
 
     if (!response.ok) {
       const errorText = await response.text().catch(() => response.statusText);
@@ -258,186 +361,52 @@ export async function fetchCategoryGames(
           body: errorText,
         }
       );
-      throw new Error(`Failed to fetch category games: ${response.status} ${response.statusText}`);
+      throw new HttpError(`Failed to fetch category games: ${response.status} ${response.statusText}`, response);
     }
 
     const data = await response.json();
 
-    // Handle different response structures
-    let games: unknown[] = [];
+    // Handle different response structures - games are validated and mapped to our GameTile format
+    let mappedGames: GameTile[] = [];
     let extractedTotalCount: number | undefined;
     
     if (Array.isArray(data)) {
       // If response is directly an array
-      games = data;
+      mappedGames = adaptGames(data, categoryPath);
     } else if (Array.isArray(data.games)) {
-      games = data.games;
+      mappedGames = adaptGames(data.games, categoryPath);
     } else if (Array.isArray(data.items)) {
-      games = data.items;
+      mappedGames = adaptGames(data.items, categoryPath);
     } else if (Array.isArray(data.data)) {
-      games = data.data;
+      mappedGames = adaptGames(data.data, categoryPath);
     } else if (data.components && Array.isArray(data.components)) {
       // Handle /pages/en/casino/new-games structure
       // Find component with type "game-list" that has games array
-      const gameListComponent = data.components.find(
-        (comp: unknown) => {
-          const c = comp as Record<string, unknown>;
-          return (c.type === 'game-list' || c.type === 'games-tiles') && Array.isArray(c.games);
-        }
-      );
+      const component = adaptGameListComponent(data, categoryPath);
       
-      if (gameListComponent) {
-        const component = gameListComponent as Record<string, unknown>;
-        games = (component.games as unknown[]) || [];
+      if (component) {
+        mappedGames = component.games;
         
         // component.total might be limited or incorrect
-        // Extract collection name from listParameters and fetch real total from /en/games/tiles
-        const listParams = component.listParameters as Record<string, unknown> | string[] | undefined;
-        let collections: string[] | undefined;
-        
-        // listParameters can be an array (e.g., ["new-games"]) or an object with collections field
-        if (Array.isArray(listParams)) {
-          collections = listParams;
-        } else if (listParams && typeof listParams === 'object') {
-          // listParameters.collections is an array like ["all-games"] or ["new-games"]
-          collections = (listParams as Record<string, unknown>).collections as string[] | undefined;
-        }
+        // Use the collection name from listParameters and fetch real total from /en/games/tiles
+        const { collections } = component;
         
-        if (collections && collections.length > 0) {
+        if (collections.length > 0) {
           // Fetch real total from /en/games/tiles with gameCollections parameter
           try {
             const collectionName = collections[0]; // e.g., "new-games", "popular", "all-games"
-            const tilesUrl = `/api/games?category=/en/games/tiles&gameCollections=${collectionName}&pageNumber=1&pageSize=1`;
-            const tilesResponse = await fetch(tilesUrl);
-            if (tilesResponse.ok) {
-              const tilesData = await tilesResponse.json();
-              if (typeof tilesData.count === 'number') {
-                extractedTotalCount = tilesData.count;
-              }
-            }
+            extractedTotalCount = await fetchCollectionTotal(collectionName, locale);
           } catch (error) {
             // If fetch fails, use component.total as fallback
-            extractedTotalCount = typeof component.total === 'number' ? component.total : undefined;
+            extractedTotalCount = component.total;
           }
         } else {
           // No collections, use component.total as fallback
-          extractedTotalCount = typeof component.total === 'number' ? component.total : undefined;
+          extractedTotalCount = component.total;
         }
       }
     }
 
-    // Map games to our GameTile format
-    const mappedGames: GameTile[] = games.map((game: unknown) => {
-      const gameRecord = game as Record<string, unknown>;
-      // Handle different field names from API
-      const gameId = String(
-        gameRecord.id || 
-        gameRecord.platformId || 
-        gameRecord.slug || 
-        Math.random()
-      );
-      const gameName = String(
-        gameRecord.name || 
-        gameRecord.gameText || 
-        gameRecord.title || 
-        'Unknown Game'
-      );
-      
-      // Handle image field - can be string or object
-      let gameThumbnail = '';
-      
-      // First, try thumbnail field
-      if (typeof gameRecord.thumbnail === 'string' && gameRecord.thumbnail) {
-        gameThumbnail = gameRecord.thumbnail;
-      } else if (gameRecord.thumbnail && typeof gameRecord.thumbnail === 'object') {
-        // Handle thumbnail as object
-        const thumbObj = gameRecord.thumbnail as Record<string, unknown>;
-        gameThumbnail = String(
-          thumbObj.url || 
-          thumbObj.original || 
-          thumbObj.small || 
-          thumbObj.thumbnail || 
-          ''
-        );
-      }
-      
-      // If thumbnail is empty, try image field
-      if (!gameThumbnail) {
-        if (typeof gameRecord.image === 'string') {
-          gameThumbnail = gameRecord.image;
-        } else if (gameRecord.image && typeof gameRecord.image === 'object') {
-          const imageObj = gameRecord.image as Record<string, unknown>;
-          // Try to get URL from nested image object
-          const original = imageObj.original;
-          const small = imageObj.small;
-          const thumbnail = imageObj.thumbnail;
-          
-          // Handle nested image objects (image.original.url, etc.)
-          if (original && typeof original === 'object') {
-            const origObj = original as Record<string, unknown>;
-            gameThumbnail = String(origObj.url || origObj.src || origObj.original || '');
-          } else if (typeof original === 'string') {
-            gameThumbnail = original;
-          } else if (small && typeof small === 'object') {
-            const smallObj = small as Record<string, unknown>;
-            gameThumbnail = String(smallObj.url || smallObj.src || smallObj.small || '');
-          } else if (typeof small === 'string') {
-            gameThumbnail = small;
-          } else if (thumbnail && typeof thumbnail === 'object') {
-            const thumbObj = thumbnail as Record<string, unknown>;
-            gameThumbnail = String(thumbObj.url || thumbObj.src || thumbObj.thumbnail || '');
-          } else if (typeof thumbnail === 'string') {
-            gameThumbnail = thumbnail;
-          } else {
-            // Fallback: try to stringify the first available property
-            gameThumbnail = String(
-              imageObj.url || 
-              imageObj.src ||
-              imageObj.original || 
-              imageObj.small || 
-              imageObj.thumbnail || 
-              ''
-            );
-          }
-        }
-      }
-      
-      // If still empty, try providerLogo.original.src as fallback
-      if (!gameThumbnail && gameRecord.providerLogo && typeof gameRecord.providerLogo === 'object') {
-        const providerLogo = gameRecord.providerLogo as Record<string, unknown>;
-        if (providerLogo.original && typeof providerLogo.original === 'object') {
-          const original = providerLogo.original as Record<string, unknown>;
-          gameThumbnail = String(original.src || original.url || '');
-        }
-      }
-      
-      // Ensure thumbnail is a valid URL string
-      if (gameThumbnail && !gameThumbnail.startsWith('http') && !gameThumbnail.startsWith('/')) {
-        // If it's not a valid URL, clear it
-        logger.warn('Invalid thumbnail URL for game', {
-          gameName,
-          thumbnail: gameThumbnail,
-        });
-        gameThumbnail = '';
-      }
-      
-      const gameProvider = typeof gameRecord.provider === 'string' 
-        ? gameRecord.provider 
-        : (typeof gameRecord.providerName === 'string' ? gameRecord.providerName : undefined);
-
-      // Create a clean game object without image/thumbnail to avoid overwriting
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { image: _image, thumbnail: _thumbnail, ...restGame } = gameRecord;
-
-      return {
-        id: gameId,
-        name: gameName,
-        thumbnail: gameThumbnail,
-        provider: gameProvider,
-        ...restGame, // Keep all other properties except image/thumbnail
-      } as GameTile;
-    });
-
     // Extract pagination info
     const totalCount = extractedTotalCount || data.totalCount || data.total || data.count || mappedGames.length;
     const requestedPageSize = params.pageSize || 10;
@@ -458,6 +427,104 @@ export async function fetchCategoryGames(
     maxRetries: 3,
     initialDelay: 1000,
     maxDelay: 10000,
+    // Server rendering doesn't wait out an upstream outage - the client fetches the games again
+    maxElapsedTime: typeof window === 'undefined' ? SSR_RETRY_TIME_BUDGET : API_RETRY_TIME_BUDGET,
+    signal,
   });
 }
 
+/**
+ * Searches the games of a category through the server-side search index
+ * For categories whose endpoint ignores `search` (/pages/{locale}/casino/*) -
+ * the index returns one page of ranked matches with the real total
+ * @param getPageUrl - The URL from category.getPage property
+ * @param params - Search query, pagination, locale and provider filter
+ * @param options - signal cancels the request and its retries
+ * @returns Promise with one page of matching games
+ */
+export async function searchCategoryGames(
+  getPageUrl: string,
+  params: Omit<GamesTilesParams, 'category'> = {},
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<GamesTilesResponse> {
+  return retryWithBackoff(async () => {
+    const { categoryPath, locale } = resolveCategoryPath(getPageUrl, params.locale);
+    const searchParams = new URLSearchParams();
+
+    searchParams.append('category', categoryPath);
+    searchParams.append('locale', locale);
+    searchParams.append('search', params.search || '');
+    searchParams.append('pageNumber', String(params.pageNumber || 1));
+    searchParams.append('pageSize', String(params.pageSize || INITIAL_PAGE_SIZE));
+    if (params.providers && params.providers.length > 0) {
+      searchParams.append('providers', params.providers.join(','));
+    }
+
+    const response = await fetch(`/api/search?${searchParams.toString()}`, { signal });
+
+    if (!response.ok) {
+      throw new HttpError(`Failed to search category games: ${response.status} ${response.statusText}`, response);
+    }
+
+    const data: GamesTilesResponse = await response.json();
+    return data;
+  }, {
+    maxRetries: 3,
+    initialDelay: 1000,
+    maxDelay: 10000,
+    maxElapsedTime: API_RETRY_TIME_BUDGET,
+    signal,
+  });
+}
+
+/**
+ * Fetches a single game by its slug or platformId
+ * The API has no single-game endpoint, so we search /{locale}/games/tiles by the
+ * words of the slug and pick the exact match from the results
+ * @param slug - Game slug or platformId from the URL
+ * @param locale - Market locale
+ * @returns Promise with the game, or null if no game matches
+ */
+export async function fetchGameBySlug(
+  slug: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<GameTile | null> {
+  return retryWithBackoff(async () => {
+    const searchParams = new URLSearchParams();
+
+    searchParams.append('category', `/${locale}/games/tiles`);
+    searchParams.append('locale', locale);
+    // "book-of-dead" -> "book of dead"
+    searchParams.append('search', slug.replace(/[-_]+/g, ' ').trim());
+    searchParams.append('pageNumber', '1');
+    searchParams.append('pageSize', '50');
+
+    // Through /api/games (or its loader during server rendering) - cached and circuit-protected
+    const response = await fetchGamesRoute(searchParams);
+
+    if (!response.ok) {
+      throw new HttpError(`Failed to fetch game: ${response.statusText}`, response);
+    }
+
+    const data = await response.json();
+    const items: unknown[] = Array.isArray(data)
+      ? data
+      : Array.isArray(data.games)
+        ? data.games
+        : Array.isArray(data.items)
+          ? data.items
+          : [];
+
+    const games = adaptGames(items, `/${locale}/games/tiles`);
+    return (
+      games.find((game) => game.slug === slug || game.platformId === slug) ||
+      games.find((game) => game.id === slug) ||
+      null
+    );
+  }, {
+    maxRetries: 2,
+    initialDelay: 1000,
+    maxDelay: 5000,
+    maxElapsedTime: typeof window === 'undefined' ? SSR_RETRY_TIME_BUDGET : API_RETRY_TIME_BUDGET,
+  });
+}
@@ -0,0 +1,353 @@
+/**
+ * Adapter for upstream game payloads
+ * Validates raw game records and page components from the Pika API against
+ * explicit schemas and converts them to canonical GameTile objects
+ * Bump GAME_ADAPTER_VERSION whenever the schemas or the canonical output change
+ */
+
+import type { GameTile } from '@/types';
+import { logger } from '@/utils/logger';
+
+export const GAME_ADAPTER_VERSION = 1;
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+// Allowed types of each known field - unknown fields are dropped
+type RecordSchema = Record<string, readonly FieldType[]>;
+
+// Raw game record of /{locale}/games/tiles and page game lists (v1)
+const GAME_SCHEMA = {
+  id: ['string', 'number'],
+  platformId: ['string', 'number'],
+  slug: ['string'],
+  name: ['string'],
+  gameText: ['string'],
+  title: ['string'],
+  thumbnail: ['string', 'object'],
+  image: ['string', 'object'],
+  provider: ['string'],
+  providerName: ['string'],
+  provider_slug: ['string'],
+  providerLogo: ['object'],
+  betSize: ['object'],
+  isLiveGame: ['boolean'],
+} as const satisfies RecordSchema;
+
+const PROVIDER_LOGO_SCHEMA = {
+  alt: ['string'],
+  original: ['object'],
+} as const satisfies RecordSchema;
+
+const LOGO_IMAGE_SCHEMA = {
+  src: ['string'],
+  url: ['string'],
+  metadata: ['object'],
+} as const satisfies RecordSchema;
+
+const BET_SIZE_SCHEMA = {
+  min: ['number'],
+  max: ['number'],
+} as const satisfies RecordSchema;
+
+// Games list component of /pages/{locale}/casino/* (v1)
+const GAME_LIST_COMPONENT_SCHEMA = {
+  type: ['string'],
+  games: ['array'],
+  listParameters: ['array', 'object'],
+  total: ['number'],
+} as const satisfies RecordSchema;
+
+const GAME_LIST_COMPONENT_TYPES = ['game-list', 'games-tiles'];
+
+// Page of /{locale}/games/tiles (v1)
+const GAMES_TILES_PAGE_SCHEMA = {
+  games: ['array'],
+  count: ['number'],
+} as const satisfies RecordSchema;
+
+// Nested keys an image URL can hide behind, in order of preference
+const IMAGE_URL_KEYS = ['url', 'src', 'original', 'small', 'thumbnail'] as const;
+
+type RawRecord = Record<string, unknown>;
+type LogoImage = NonNullable<NonNullable<GameTile['providerLogo']>['original']>;
+
+// Fields matching a schema, typed loosely - values are checked against the schema at runtime
+type ValidatedFields<S extends RecordSchema> = { [K in keyof S]?: unknown };
+
+export type AdapterResult<T> =
+  | { ok: true; value: T; issues: string[] } // Issues of fields that were dropped
+  | { ok: false; issues: string[] }; // Rejected record
+
+export interface GameListComponent {
+  games: GameTile[];
+  collections: string[]; // `gameCollections` of the tiles endpoint (e.g. ["new-games"])
+  total?: number; // Upstream total - may be limited to the listed games
+}
+
+export interface GamesTilesPage {
+  games: GameTile[];
+  records: number; // Game records of the page, rejected ones included (a short page is the last one)
+  count?: number; // Upstream total
+}
+
+const getType = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+
+const isRecord = (value: unknown): value is RawRecord => getType(value) === 'object';
+
+// Keep the fields that match the schema; empty strings count as missing
+function validateFields<S extends RecordSchema>(
+  record: RawRecord,
+  schema: S,
+  path: string,
+  issues: string[]
+): ValidatedFields<S> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, types] of Object.entries(schema)) {
+    const value = record[key];
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    const type = getType(value);
+    if ((types as readonly string[]).includes(type)) {
+      fields[key] = value;
+    } else {
+      issues.push(`${path}${key}: expected ${types.join(' or ')}, got ${type}`);
+    }
+  }
+  return fields as ValidatedFields<S>;
+}
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+// 32-bit FNV-1a hash - stable across runtimes, used for games without identifiers
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Image URL from a string or from nested image objects (image.original.url, ...)
+function resolveImageUrl(value: unknown, depth = 0): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!isRecord(value) || depth > 2) {
+    return '';
+  }
+  for (const key of IMAGE_URL_KEYS) {
+    const url = resolveImageUrl(value[key], depth + 1);
+    if (url) {
+      return url;
+    }
+  }
+  return '';
+}
+
+function adaptProviderLogo(value: unknown, issues: string[]): GameTile['providerLogo'] {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const logo = validateFields(value, PROVIDER_LOGO_SCHEMA, 'providerLogo.', issues);
+  const original = isRecord(logo.original)
+    ? validateFields(logo.original, LOGO_IMAGE_SCHEMA, 'providerLogo.original.', issues)
+    : undefined;
+  return {
+    alt: logo.alt as string | undefined,
+    original: original && {
+      src: original.src as string | undefined,
+      url: original.url as string | undefined,
+      metadata: original.metadata as LogoImage['metadata'],
+    },
+  };
+}
+
+function adaptBetSize(value: unknown, issues: string[]): GameTile['betSize'] {
+  if (!isRecord(value)) {
+    return undefined;
+  }
+  const betSize = validateFields(value, BET_SIZE_SCHEMA, 'betSize.', issues);
+  if (betSize.min === undefined && betSize.max === undefined) {
+    return undefined;
+  }
+  return { min: betSize.min as number | undefined, max: betSize.max as number | undefined };
+}
+
+/**
+ * Validate a raw game record and convert it to a GameTile
+ * Ids are stable: id, platformId or slug, else a hash of the name and provider
+ * @param raw - Raw game object from any of the games endpoints
+ * @returns The game tile with the issues of dropped fields, or the reasons it was rejected
+ */
+export function adaptGame(raw: unknown): AdapterResult<GameTile> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [`expected an object, got ${getType(raw)}`] };
+  }
+
+  const issues: string[] = [];
+  const fields = validateFields(raw, GAME_SCHEMA, '', issues);
+
+  const name = asString(fields.name) || asString(fields.gameText) || asString(fields.title);
+  if (!name) {
+    return { ok: false, issues: [...issues, 'name: missing (also no gameText or title)'] };
+  }
+
+  const provider = asString(fields.provider) || asString(fields.providerName);
+  const providerLogo = adaptProviderLogo(fields.providerLogo, issues);
+
+  let thumbnail =
+    resolveImageUrl(fields.thumbnail) ||
+    resolveImageUrl(fields.image) ||
+    providerLogo?.original?.src ||
+    providerLogo?.original?.url ||
+    '';
+  if (thumbnail && !thumbnail.startsWith('http') && !thumbnail.startsWith('/')) {
+    issues.push(`thumbnail: not a URL (${thumbnail})`);
+    thumbnail = '';
+  }
+
+  const id =
+    asString(fields.id) ||
+    asString(fields.platformId) ||
+    asString(fields.slug) ||
+    `game-${hashString(`${name}|${provider || ''}`)}`;
+
+  const game: GameTile = {
+    id,
+    name,
+    thumbnail,
+    provider,
+    platformId: asString(fields.platformId),
+    slug: asString(fields.slug),
+    gameText: asString(fields.gameText),
+    title: asString(fields.title),
+    provider_slug: asString(fields.provider_slug),
+    providerLogo,
+    betSize: adaptBetSize(fields.betSize, issues),
+    isLiveGame: fields.isLiveGame as boolean | undefined,
+  };
+
+  return { ok: true, value: game, issues };
+}
+
+/**
+ * Convert raw game records to game tiles, dropping invalid ones
+ * Rejected records and dropped fields are reported via logger
+ * @param records - Raw game objects
+ * @param source - Upstream path the records came from (for the logs)
+ * @returns Valid game tiles in upstream order
+ */
+export function adaptGames(records: readonly unknown[], source: string): GameTile[] {
+  const games: GameTile[] = [];
+  records.forEach((record, index) => {
+    const result = adaptGame(record);
+    if (!result.ok) {
+      logger.warn('Rejected upstream game', {
+        adapterVersion: GAME_ADAPTER_VERSION,
+        source,
+        index,
+        reasons: result.issues,
+      });
+      return;
+    }
+    if (result.issues.length > 0) {
+      logger.warn('Invalid fields in upstream game', {
+        adapterVersion: GAME_ADAPTER_VERSION,
+        source,
+        gameId: result.value.id,
+        reasons: result.issues,
+      });
+    }
+    games.push(result.value);
+  });
+  return games;
+}
+
+/**
+ * Find and validate the games list component of a page payload (/pages/{locale}/casino/*)
+ * @param page - Page response
+ * @param source - Upstream path of the page (for the logs)
+ * @returns The component's games, collections and total, or null if the page has none
+ */
+export function adaptGameListComponent(page: unknown, source: string): GameListComponent | null {
+  const components = isRecord(page) ? page.components : undefined;
+  if (!Array.isArray(components)) {
+    return null;
+  }
+
+  const raw = components.find(
+    (component: unknown) =>
+      isRecord(component) &&
+      GAME_LIST_COMPONENT_TYPES.includes(component.type as string) &&
+      Array.isArray(component.games)
+  ) as RawRecord | undefined;
+  if (!raw) {
+    return null;
+  }
+
+  const issues: string[] = [];
+  const component = validateFields(raw, GAME_LIST_COMPONENT_SCHEMA, 'component.', issues);
+
+  // listParameters can be an array (e.g., ["new-games"]) or an object with collections field
+  const listParameters = component.listParameters;
+  const collections = Array.isArray(listParameters)
+    ? listParameters
+    : isRecord(listParameters) && Array.isArray(listParameters.collections)
+      ? listParameters.collections
+      : [];
+  const validCollections = collections.filter(
+    (collection): collection is string => typeof collection === 'string' && collection !== ''
+  );
+  if (validCollections.length < collections.length) {
+    issues.push('component.listParameters: ignored collections that are not names');
+  }
+
+  if (issues.length > 0) {
+    logger.warn('Invalid fields in upstream game list', {
+      adapterVersion: GAME_ADAPTER_VERSION,
+      source,
+      reasons: issues,
+    });
+  }
+
+  return {
+    games: adaptGames(component.games as unknown[], source),
+    collections: validCollections,
+    total: component.total as number | undefined,
+  };
+}
+
+/**
+ * Validate a page of the tiles endpoint (/{locale}/games/tiles)
+ * @param page - Tiles response
+ * @param source - Upstream path of the page (for the logs)
+ * @returns The page's games and total, or null if the payload has no games list
+ */
+export function adaptGamesTilesPage(page: unknown, source: string): GamesTilesPage | null {
+  if (!isRecord(page)) {
+    return null;
+  }
+
+  const issues: string[] = [];
+  const fields = validateFields(page, GAMES_TILES_PAGE_SCHEMA, 'page.', issues);
+  if (issues.length > 0) {
+    logger.warn('Invalid fields in upstream games page', {
+      adapterVersion: GAME_ADAPTER_VERSION,
+      source,
+      reasons: issues,
+    });
+  }
+  if (!Array.isArray(fields.games)) {
+    return null;
+  }
+
+  return {
+    games: adaptGames(fields.games, source),
+    records: fields.games.length,
+    count: fields.count as number | undefined,
+  };
+}
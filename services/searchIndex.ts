@@ -0,0 +1,167 @@
+/**
+ * Server-side search index
+ * Collects every game of a category from the upstream API and answers
+ * search + provider + page queries over it (used by /api/search)
+ */
+
+import type { GameTile, GamesTilesResponse, Locale } from '@/types';
+import { API_BASE_URL, MAX_PAGE_SIZE, UPSTREAM_TIMEOUT } from '@/constants';
+import { cache } from '@/utils/cache';
+import { getProviderSlug } from '@/utils/games';
+import { getCategoryEndpoint } from '@/utils/categories';
+import { getUpstreamCircuit, isUpstreamFailure } from '@/utils/circuitBreaker';
+import { fetchWithLocaleFallback, localizePath } from '@/utils/locale';
+import { searchGames } from '@/utils/search';
+import { SingleFlight } from '@/utils/singleFlight';
+import { adaptGameListComponent, adaptGamesTilesPage } from './gameAdapter';
+
+const INDEX_TTL = 5 * 60 * 1000; // 5 minutes - games of a category change rarely
+const MAX_INDEX_PAGES = 20; // Upper bound of tiles pages per category (2000 games)
+
+// Index builds in flight by cache key
+const indexBuilds = new SingleFlight();
+
+export interface SearchIndexQuery {
+  categoryPath: string; // Upstream path, e.g. "/en/games/tiles" or "/pages/en/casino/new-games"
+  locale: Locale;
+  search: string;
+  pageNumber: number;
+  pageSize: number;
+  providers: string[]; // Provider slugs
+}
+
+export interface CategoryIndex {
+  games: GameTile[];
+  degraded: boolean; // Last known good games, the upstream is down
+}
+
+export type SearchIndexResponse = GamesTilesResponse & { degraded: boolean };
+
+async function fetchUpstreamJson(path: string): Promise<unknown> {
+  const { response } = await getUpstreamCircuit(path).execute(
+    () => fetchWithLocaleFallback(API_BASE_URL, path, {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0',
+      },
+      next: { revalidate: 60 },
+      // A hung page would hold up the whole build and every search waiting on it
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+    }),
+    (result) => isUpstreamFailure(result.response)
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${path}: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// Every page of /{locale}/games/tiles, optionally limited to one game collection
+async function fetchAllTiles(locale: Locale, gameCollection?: string): Promise<GameTile[]> {
+  const games: GameTile[] = [];
+  const path = `/${locale}/games/tiles`;
+
+  for (let pageNumber = 1; pageNumber <= MAX_INDEX_PAGES; pageNumber++) {
+    const queryParams = new URLSearchParams({
+      pageNumber: String(pageNumber),
+      pageSize: String(MAX_PAGE_SIZE),
+    });
+    if (gameCollection) {
+      queryParams.append('gameCollections', gameCollection);
+    }
+
+    const page = adaptGamesTilesPage(await fetchUpstreamJson(`${path}?${queryParams.toString()}`), path);
+    if (!page) {
+      // Not cached - an unexpected payload must not leave a truncated index behind
+      throw new Error(`Unexpected games page of ${path}`);
+    }
+    games.push(...page.games);
+
+    if (page.records < MAX_PAGE_SIZE || games.length >= (page.count ?? 0)) {
+      break;
+    }
+  }
+
+  return games;
+}
+
+// All games of a category - page categories list only their first games, so the
+// collection behind their game list is paged from the tiles endpoint instead
+async function fetchCategoryIndexGames(categoryPath: string, locale: Locale): Promise<GameTile[]> {
+  if (getCategoryEndpoint(categoryPath) === 'tiles') {
+    return fetchAllTiles(locale);
+  }
+
+  const pagePath = localizePath(categoryPath, locale);
+  const component = adaptGameListComponent(await fetchUpstreamJson(pagePath), pagePath);
+  if (!component) {
+    return [];
+  }
+
+  // Same collection fetchCategoryGames takes the category total from
+  const [collection] = component.collections;
+  return collection ? fetchAllTiles(locale, collection) : component.games;
+}
+
+/**
+ * Get the indexed games of a category, building the index on first use
+ * Falls back to the last successfully built index while the upstream is down
+ * @param categoryPath - Upstream category path
+ * @param locale - Market locale
+ * @returns All games of the category
+ */
+export async function getCategoryIndex(categoryPath: string, locale: Locale): Promise<CategoryIndex> {
+  const cacheKey = `search-index:${locale}:${categoryPath}`;
+  const cachedGames = await cache.get<GameTile[]>(cacheKey);
+  if (cachedGames) {
+    return { games: cachedGames, degraded: false };
+  }
+
+  try {
+    // Concurrent searches on a cold index share one build
+    const games = await indexBuilds.run(cacheKey, async () => {
+      const builtGames = await fetchCategoryIndexGames(categoryPath, locale);
+      await Promise.all([
+        cache.set(cacheKey, builtGames, INDEX_TTL),
+        cache.setLastKnownGood(cacheKey, builtGames),
+      ]);
+      return builtGames;
+    });
+    return { games, degraded: false };
+  } catch (error) {
+    const fallbackGames = await cache.getLastKnownGood<GameTile[]>(cacheKey);
+    if (!fallbackGames) {
+      throw error;
+    }
+    return { games: fallbackGames, degraded: true };
+  }
+}
+
+/**
+ * Search the games of a category
+ * @param query - Category, search query, provider filter and page
+ * @returns One page of ranked matches with the total number of matches
+ */
+export async function searchCategoryIndex(query: SearchIndexQuery): Promise<SearchIndexResponse> {
+  const { categoryPath, locale, search, pageNumber, pageSize, providers } = query;
+  const { games, degraded } = await getCategoryIndex(categoryPath, locale);
+
+  let matches = searchGames(games, search).map((result) => result.game);
+  if (providers.length > 0) {
+    matches = matches.filter((game) => {
+      const providerSlug = getProviderSlug(game);
+      return providerSlug !== null && providers.includes(providerSlug);
+    });
+  }
+
+  const startIndex = (pageNumber - 1) * pageSize;
+  return {
+    games: matches.slice(startIndex, startIndex + pageSize),
+    totalCount: matches.length,
+    pageNumber,
+    pageSize,
+    degraded,
+  };
+}
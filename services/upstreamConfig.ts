@@ -0,0 +1,146 @@
+/**
+ * Server-side config loader
+ * Config of the upstream API with caching (stale-while-revalidate) and a circuit breaker
+ * that serves the last known good config while the upstream is down
+ * Shared by /api/config and server rendering (lobby page, home rails), so both hit the same cache
+ */
+
+import { NextResponse } from 'next/server';
+import type { Locale } from '@/types';
+import { API_BASE_URL, UPSTREAM_TIMEOUT } from '@/constants';
+import { cache, type CacheStatus } from '@/utils/cache';
+import { CircuitOpenError, isUpstreamFailure, upstreamCircuits } from '@/utils/circuitBreaker';
+import { logger } from '@/utils/logger';
+import { fetchWithLocaleFallback } from '@/utils/locale';
+
+const CACHE_TTL = 3600000; // 1 hour cache (config changes rarely)
+const CACHE_STALE_TTL = 86400000; // Serve up to a day old config while refreshing it
+
+export type ConfigResult =
+  | { ok: true; data: unknown; cacheStatus: CacheStatus; degraded: boolean; locale?: Locale }
+  | { ok: false; status: number; statusText: string; retryAfterMs?: number };
+
+type UpstreamConfig =
+  | { ok: true; data: unknown; locale: Locale }
+  | { ok: false; status: number; statusText: string; retryAfterMs?: number };
+
+// Falls back to FALLBACK_LOCALE if the upstream has no config for this market
+// Goes through the circuit breaker - fails fast while the upstream is down
+function fetchUpstreamConfig(locale: Locale) {
+  return upstreamCircuits.config.execute(
+    () => fetchWithLocaleFallback(
+      API_BASE_URL,
+      `/${locale}/config`,
+      {
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': 'Mozilla/5.0',
+        },
+        next: { revalidate: 3600 }, // Revalidate every hour
+        signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+      }
+    ),
+    (result) => isUpstreamFailure(result.response)
+  );
+}
+
+// Fetch and cache config, keeping it as the last known good config
+async function loadUpstreamConfig(cacheKey: string, locale: Locale): Promise<UpstreamConfig> {
+  const { response, locale: servedLocale } = await fetchUpstreamConfig(locale);
+  if (!response.ok) {
+    return { ok: false, status: response.status, statusText: response.statusText };
+  }
+
+  const data = await response.json();
+  await Promise.all([
+    cache.set(cacheKey, data, CACHE_TTL, CACHE_STALE_TTL),
+    cache.setLastKnownGood(cacheKey, data),
+  ]);
+  return { ok: true, data, locale: servedLocale };
+}
+
+// Thrown upstream calls: 503 while the circuit is open, 502 if the upstream couldn't be reached
+function toUpstreamFailure(error: unknown): UpstreamConfig {
+  if (error instanceof CircuitOpenError) {
+    return { ok: false, status: 503, statusText: 'Service Unavailable', retryAfterMs: error.retryAfterMs };
+  }
+  logger.warn('Upstream request failed', {
+    action: 'loadUpstreamConfig',
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return { ok: false, status: 502, statusText: 'Bad Gateway' };
+}
+
+/**
+ * Get the upstream config of a market
+ * Cached config is returned right away (stale config is refreshed in the background);
+ * while the upstream is down the last known good config is returned, marked as degraded
+ * @param locale - Market locale
+ * @returns Upstream config, or the status of the failed upstream request
+ */
+export async function getConfig(locale: Locale): Promise<ConfigResult> {
+  // Check cache first - stale config is served right away and refreshed in the background
+  const cacheKey = `config:${locale}`;
+  const cached = await cache.lookup<unknown>(cacheKey);
+  if (cached) {
+    if (cached.status === 'STALE') {
+      void cache.revalidate(cacheKey, async () => {
+        const { response } = await fetchUpstreamConfig(locale);
+        if (!response.ok) {
+          throw new Error(`Failed to fetch config: ${response.statusText}`);
+        }
+        const data = await response.json();
+        await cache.setLastKnownGood(cacheKey, data);
+        return data;
+      }, CACHE_TTL, CACHE_STALE_TTL);
+    }
+    return { ok: true, data: cached.data, cacheStatus: cached.status, degraded: false };
+  }
+
+  const upstream = await loadUpstreamConfig(cacheKey, locale).catch(toUpstreamFailure);
+
+  if (!upstream.ok) {
+    // Upstream down - serve the last known good config, marked as degraded
+    if (upstream.status >= 500) {
+      const fallback = await cache.getLastKnownGood<unknown>(cacheKey);
+      if (fallback !== null) {
+        return { ok: true, data: fallback, cacheStatus: 'STALE', degraded: true };
+      }
+    }
+    return upstream;
+  }
+
+  return { ok: true, data: upstream.data, cacheStatus: 'MISS', degraded: false, locale: upstream.locale };
+}
+
+/**
+ * Turn a config result into the /api/config response
+ * @param result - Result of getConfig
+ * @param headers - Additional headers (e.g. rate limit headers)
+ * @returns JSON response with the cache status, or the error with the upstream status
+ */
+export function toConfigResponse(result: ConfigResult, headers: Record<string, string> = {}): NextResponse {
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: `Failed to fetch config: ${result.statusText}` },
+      {
+        status: result.status,
+        headers: {
+          ...(result.retryAfterMs !== undefined && {
+            'Retry-After': String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))),
+          }),
+          ...headers,
+        },
+      }
+    );
+  }
+
+  return NextResponse.json(result.data, {
+    headers: {
+      'X-Cache': result.cacheStatus,
+      ...(result.degraded && { 'X-Degraded': 'true' }),
+      ...(result.locale && { 'Content-Language': result.locale }),
+      ...headers,
+    },
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * Server-side games loader
+ * Games of the upstream API with caching (stale-while-revalidate), request coalescing and
+ * a circuit breaker that serves the last known good games while the upstream is down
+ * Shared by /api/games and server rendering (lobby page, home rails), so both hit the same cache
+ */
+
+import { NextResponse } from 'next/server';
+import type { Locale } from '@/types';
+import { API_BASE_URL, UPSTREAM_TIMEOUT } from '@/constants';
+import { cache, type CacheStatus } from '@/utils/cache';
+import { getCategoryEndpoint } from '@/utils/categories';
+import { CircuitOpenError, getUpstreamCircuit, isUpstreamFailure } from '@/utils/circuitBreaker';
+import { logger } from '@/utils/logger';
+import { SingleFlight } from '@/utils/singleFlight';
+import {
+  fetchWithLocaleFallback,
+  getLocaleFromPath,
+  localizePath,
+  resolveLocale,
+} from '@/utils/locale';
+
+const CACHE_TTL = 60000; // 1 minute cache
+const CACHE_STALE_TTL = 600000; // Serve up to 10 minutes old games while refreshing them
+
+// Query parameters of /api/games
+export interface GamesQuery {
+  category: string | null; // Upstream path (e.g. "/pages/en/casino/new-games") or slug
+  search: string | null;
+  pageNumber: string | null;
+  pageSize: string | null;
+  gameCollections: string | null;
+  providers: string | null; // Comma-separated provider slugs
+  locale: Locale;
+}
+
+export type GamesResult =
+  | { ok: true; data: unknown; cacheStatus: CacheStatus; degraded: boolean; locale?: Locale }
+  | { ok: false; status: number; statusText: string; retryAfterMs?: number };
+
+type UpstreamGames =
+  | { ok: true; data: unknown; locale: Locale }
+  | { ok: false; status: number; statusText: string; retryAfterMs?: number };
+
+/**
+ * Read the games query from /api/games query parameters
+ * @param searchParams - Query string of the request
+ * @returns Games query, the locale comes from the category path if not given
+ */
+export function parseGamesQuery(searchParams: URLSearchParams): GamesQuery {
+  const category = searchParams.get('category');
+  return {
+    category,
+    search: searchParams.get('search'),
+    pageNumber: searchParams.get('pageNumber'),
+    pageSize: searchParams.get('pageSize'),
+    gameCollections: searchParams.get('gameCollections'),
+    providers: searchParams.get('providers'),
+    // Locale from query, or from the category path itself (e.g. "/pages/fi/casino/new-games")
+    locale: resolveLocale(searchParams.get('locale') || getLocaleFromPath(category)),
+  };
+}
+
+// Create cache key from request parameters (include gameCollections for proper caching)
+function getCacheKey(query: GamesQuery): string {
+  const { locale, category, gameCollections, providers, search, pageNumber, pageSize } = query;
+  return `games:${locale}:${category || 'all'}:${gameCollections || ''}:${providers || ''}:${search || ''}:${pageNumber || '1'}:${pageSize || '10'}`;
+}
+
+// Upstream path and query string of a games query
+function getUpstreamPath(query: GamesQuery): string {
+  const { category, search, pageNumber, pageSize, gameCollections, providers, locale } = query;
+
+  // Category can be like "/casino", "/pages/en/casino", or "/pages/en/casino/new-games"
+  // - paths are pointed at the requested locale, slugs use /{locale}/games/tiles
+  const path = category?.startsWith('/') ? localizePath(category, locale) : `/${locale}/games/tiles`;
+
+  // Build query string
+  const queryParams = new URLSearchParams();
+  if (search) queryParams.append('search', search);
+
+  // Check if endpoint supports pagination
+  // /en/games/tiles supports pagination, but /pages/en/casino/* endpoints don't
+  const supportsPagination = !category || getCategoryEndpoint(category) === 'tiles';
+
+  // Only add pagination and provider filter parameters if endpoint supports them
+  if (supportsPagination) {
+    if (pageNumber) queryParams.append('pageNumber', pageNumber);
+    if (pageSize) queryParams.append('pageSize', pageSize);
+    if (providers) queryParams.append('providers', providers);
+  }
+  // For /pages/en/casino/* endpoints, don't pass pagination - they return all games
+
+  // Add gameCollections parameter for /en/games/tiles endpoint
+  if (gameCollections) {
+    queryParams.append('gameCollections', gameCollections);
+  }
+  // Only add category as query param if it's not a path
+  if (category && !category.startsWith('/')) {
+    queryParams.append('category', category);
+  }
+
+  const queryString = queryParams.toString();
+  return `${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+// Falls back to FALLBACK_LOCALE if the upstream has no page for this market
+function fetchUpstreamGames(upstreamPath: string) {
+  return fetchWithLocaleFallback(
+    API_BASE_URL,
+    upstreamPath,
+    {
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'Mozilla/5.0',
+      },
+      next: { revalidate: 60 },
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT),
+    }
+  );
+}
+
+// Thrown upstream calls: 503 while the circuit is open, 502 if the upstream couldn't be reached
+function toUpstreamFailure(error: unknown): UpstreamGames {
+  if (error instanceof CircuitOpenError) {
+    return { ok: false, status: 503, statusText: 'Service Unavailable', retryAfterMs: error.retryAfterMs };
+  }
+  logger.warn('Upstream request failed', {
+    action: 'loadUpstreamGames',
+    error: error instanceof Error ? error.message : String(error),
+  });
+  return { ok: false, status: 502, statusText: 'Bad Gateway' };
+}
+
+// In-flight upstream requests by cache key
+const upstreamFlights = new SingleFlight();
+
+// Fetch games and keep them as the last known good games - concurrent misses
+// (and background refreshes) for the same cache key share one upstream request
+// Callers store the games in the cache (cache.set on a miss, cache.revalidate when stale)
+function loadUpstreamGames(cacheKey: string, upstreamPath: string): Promise<UpstreamGames> {
+  return upstreamFlights.run(cacheKey, async () => {
+    const { response, locale } = await getUpstreamCircuit(upstreamPath).execute(
+      () => fetchUpstreamGames(upstreamPath),
+      (result) => isUpstreamFailure(result.response)
+    );
+    if (!response.ok) {
+      return { ok: false, status: response.status, statusText: response.statusText };
+    }
+
+    const data = await response.json();
+    await cache.setLastKnownGood(cacheKey, data);
+    return { ok: true, data, locale };
+  });
+}
+
+/**
+ * Get the upstream games of a query
+ * Cached games are returned right away (stale ones are refreshed in the background);
+ * while the upstream is down the last known good games are returned, marked as degraded
+ * @param query - Games query, see parseGamesQuery
+ * @returns Upstream response data, or the status of the failed upstream request
+ */
+export async function getGames(query: GamesQuery): Promise<GamesResult> {
+  const cacheKey = getCacheKey(query);
+  const upstreamPath = getUpstreamPath(query);
+
+  // Check cache first - stale games are served right away and refreshed in the background
+  const cached = await cache.lookup<unknown>(cacheKey);
+  if (cached) {
+    if (cached.status === 'STALE') {
+      void cache.revalidate(cacheKey, async () => {
+        const upstream = await loadUpstreamGames(cacheKey, upstreamPath);
+        if (!upstream.ok) {
+          throw new Error(`Failed to fetch games: ${upstream.statusText}`);
+        }
+        return upstream.data;
+      }, CACHE_TTL, CACHE_STALE_TTL);
+    }
+    return { ok: true, data: cached.data, cacheStatus: cached.status, degraded: false };
+  }
+
+  const upstream = await loadUpstreamGames(cacheKey, upstreamPath).catch(toUpstreamFailure);
+
+  if (!upstream.ok) {
+    // Upstream down - serve the last known good games, marked as degraded
+    if (upstream.status >= 500) {
+      const fallback = await cache.getLastKnownGood<unknown>(cacheKey);
+      if (fallback !== null) {
+        return { ok: true, data: fallback, cacheStatus: 'STALE', degraded: true };
+      }
+    }
+    return upstream;
+  }
+
+  await cache.set(cacheKey, upstream.data, CACHE_TTL, CACHE_STALE_TTL);
+  return { ok: true, data: upstream.data, cacheStatus: 'MISS', degraded: false, locale: upstream.locale };
+}
+
+/**
+ * Turn a games result into the /api/games response
+ * @param result - Result of getGames
+ * @param headers - Additional headers (e.g. rate limit headers)
+ * @returns JSON response with the cache status, or the error with the upstream status
+ */
+export function toGamesResponse(result: GamesResult, headers: Record<string, string> = {}): NextResponse {
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: `Failed to fetch games: ${result.statusText}` },
+      {
+        status: result.status,
+        headers: {
+          ...(result.retryAfterMs !== undefined && {
+            'Retry-After': String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))),
+          }),
+          ...headers,
+        },
+      }
+    );
+  }
+
+  return NextResponse.json(result.data, {
+    headers: {
+      'X-Cache': result.cacheStatus,
+      ...(result.degraded && { 'X-Degraded': 'true' }),
+      ...(result.locale && { 'Content-Language': result.locale }),
+      ...headers,
+    },
+  });
+}
@@ -5,12 +5,17 @@
 
 import { createSelector } from 'reselect';
 import type { RootState } from './store';
+import type { Category, GameTile, ProviderFacet, SearchHighlights, SortOrder } from '@/types';
+import { getProviderSlug } from '@/utils/games';
+import { searchGames } from '@/utils/search';
+import { FAVORITES_CATEGORY, isFavoritesCategory } from './slices/favoritesSlice';
 
 // Categories selectors
 export const selectCategories = (state: RootState) => state.categories.items;
 export const selectSelectedCategory = (state: RootState) => state.categories.selectedCategory;
 export const selectCategoriesLoading = (state: RootState) => state.categories.loading;
 export const selectCategoriesError = (state: RootState) => state.categories.error;
+export const selectLocale = (state: RootState) => state.categories.locale;
 
 // Memoized selector for categories with selected category info
 export const selectCategoriesWithSelection = createSelector(
@@ -22,46 +27,301 @@ export const selectCategoriesWithSelection = createSelector(
   })
 );
 
+// Favorites selectors
+export const selectFavorites = (state: RootState) => state.favorites.items;
+
+// Memoized selector for quick "is favorite" lookups in game tiles
+export const selectFavoriteIds = createSelector(
+  [selectFavorites],
+  (favorites) => new Set(favorites.map((game) => game.id))
+);
+
+// Recently played selectors
+export const selectRecentlyPlayed = (state: RootState) => state.recentlyPlayed.items;
+
+// Memoized selector for the games of the "Continue playing" rail
+export const selectRecentlyPlayedGames = createSelector(
+  [selectRecentlyPlayed],
+  (entries) => entries.map((entry) => entry.game)
+);
+
+// Recent searches selectors
+export const selectRecentSearches = (state: RootState) => state.recentSearches.items;
+
+// Memoized selector for categories shown in the navigation
+// The virtual Favorites category is listed first once real categories are loaded
+export const selectNavCategories = createSelector(
+  [selectCategories],
+  (categories): Category[] => (categories.length > 0 ? [FAVORITES_CATEGORY, ...categories] : [])
+);
+
 // Games selectors
-export const selectGames = (state: RootState) => state.games.items;
+const selectGameEntities = (state: RootState) => state.games.entities;
+const selectLoadedGameIds = (state: RootState) => state.games.itemIds;
+const selectLoadedTotalCount = (state: RootState) => state.games.totalCount;
+
+// Memoized selector for the loaded games, in order
+const selectLoadedGames = createSelector(
+  [selectGameEntities, selectLoadedGameIds],
+  (entities, itemIds) =>
+    itemIds.map((id) => entities[id]).filter((game): game is GameTile => game !== undefined)
+);
+
+// Games of the selected category - stored favorites for the Favorites category
+export const selectGames = createSelector(
+  [selectLoadedGames, selectFavorites, selectSelectedCategory],
+  (games, favorites, selectedCategory) =>
+    isFavoritesCategory(selectedCategory) ? favorites : games
+);
+export const selectTotalCount = createSelector(
+  [selectLoadedTotalCount, selectFavorites, selectSelectedCategory],
+  (totalCount, favorites, selectedCategory) =>
+    isFavoritesCategory(selectedCategory) ? favorites.length : totalCount
+);
 export const selectGamesLoading = (state: RootState) => state.games.loading;
 export const selectGamesError = (state: RootState) => state.games.error;
+// Status of one category request (see getGamesRequestKey), or null if it was never fetched
+export const selectGamesRequest = (state: RootState, requestKey: string) =>
+  state.games.requests[requestKey] ?? null;
+// Status of the request the loaded games belong to
+export const selectLatestGamesRequest = (state: RootState) =>
+  state.games.latestRequestKey ? state.games.requests[state.games.latestRequestKey] ?? null : null;
 export const selectSearchQuery = (state: RootState) => state.games.searchQuery;
 export const selectPageNumber = (state: RootState) => state.games.pageNumber;
 export const selectPageSize = (state: RootState) => state.games.pageSize;
-export const selectTotalCount = (state: RootState) => state.games.totalCount;
+export const selectSelectedProviders = (state: RootState) => state.games.selectedProviders;
+// Whether the loaded games were already filtered by the API - never true for stored favorites
+export const selectProvidersFilteredUpstream = (state: RootState) =>
+  state.games.providersFilteredUpstream && !isFavoritesCategory(state.categories.selectedCategory);
+export const selectSearchFilteredUpstream = (state: RootState) =>
+  state.games.searchFilteredUpstream && !isFavoritesCategory(state.categories.selectedCategory);
+export const selectSortOrder = (state: RootState) => state.games.sortOrder;
+export const selectBetSizeFilter = (state: RootState) => state.games.betSizeFilter;
+export const selectScrollMode = (state: RootState) => state.games.scrollMode;
+// Whether the loaded games are one API page of a larger result (tiles endpoint or API search)
+// Sorting and the bet size filter would only apply to that page, so they are not offered
+export const selectIsServerPaginated = (state: RootState) =>
+  state.categories.selectedCategory?.endpoint === 'tiles' || selectSearchFilteredUpstream(state);
+
+// Memoized selector for ranked search results
+// Games searched by the API (category endpoint or /api/search) are only matched for highlights
+const selectSearchResults = createSelector(
+  [selectGames, selectSearchQuery],
+  (games, searchQuery) => (searchQuery.trim() ? searchGames(games, searchQuery) : null)
+);
+
+// Memoized selector for games matching the search query, best match first
+// Favorites are searched client-side; API results keep the API's order and matches
+export const selectSearchFilteredGames = createSelector(
+  [selectGames, selectSearchResults, selectSearchFilteredUpstream],
+  (games, results, searchFilteredUpstream) =>
+    results && !searchFilteredUpstream ? results.map((result) => result.game) : games
+);
+
+// Memoized selector for the matched parts of each game's name and provider, by game id
+export const selectSearchHighlights = createSelector(
+  [selectSearchResults],
+  (results) =>
+    new Map<string, SearchHighlights>(
+      (results || []).map((result) => [result.game.id, result.highlights])
+    )
+);
+
+const selectFacetIds = (state: RootState) => state.games.facetIds;
+
+// Memoized selector for the games provider facets are counted on - the latest view fetched
+// without a provider filter, so filtering by one provider keeps the others listed
+// Falls back to the search-filtered games (favorites, or no unfiltered view loaded yet)
+const selectFacetGames = createSelector(
+  [
+    selectGameEntities,
+    selectFacetIds,
+    selectSearchFilteredGames,
+    selectSearchQuery,
+    selectSearchFilteredUpstream,
+    selectSelectedCategory,
+  ],
+  (entities, facetIds, searchFilteredGames, searchQuery, searchFilteredUpstream, selectedCategory) => {
+    if (facetIds.length === 0 || isFavoritesCategory(selectedCategory)) {
+      return searchFilteredGames;
+    }
+    const games = facetIds
+      .map((id) => entities[id])
+      .filter((game): game is GameTile => game !== undefined);
+    return searchQuery.trim() && !searchFilteredUpstream
+      ? searchGames(games, searchQuery).map((result) => result.game)
+      : games;
+  }
+);
+
+// Memoized selector for provider facets (name, logo, count) of the loaded games
+// Counts respect the search query; selected providers are always listed so they can be deselected
+export const selectProviderFacets = createSelector(
+  [selectFacetGames, selectSelectedProviders],
+  (games, selectedProviders): ProviderFacet[] => {
+    const facets = new Map<string, ProviderFacet>();
+
+    for (const game of games) {
+      const slug = getProviderSlug(game);
+      if (!slug) {
+        continue;
+      }
+      const facet = facets.get(slug);
+      facets.set(slug, {
+        slug,
+        name: facet?.name || game.provider || slug,
+        logo: facet?.logo || game.providerLogo?.original?.src || game.providerLogo?.original?.url,
+        count: (facet?.count || 0) + 1,
+      });
+    }
+
+    for (const slug of selectedProviders) {
+      if (!facets.has(slug)) {
+        facets.set(slug, { slug, name: slug, count: 0 });
+      }
+    }
+
+    return [...facets.values()].sort(
+      (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+    );
+  }
+);
+
+// Memoized selector for games after all client-side filters (search, provider, bet size)
+// isClientFiltered tells whether the result is smaller than what the API counted in totalCount
+export const selectFilteredGames = createSelector(
+  [
+    selectSearchFilteredGames,
+    selectSearchQuery,
+    selectSearchFilteredUpstream,
+    selectSelectedProviders,
+    selectProvidersFilteredUpstream,
+    selectBetSizeFilter,
+    selectIsServerPaginated,
+  ],
+  (
+    searchFilteredGames,
+    searchQuery,
+    searchFilteredUpstream,
+    selectedProviders,
+    providersFilteredUpstream,
+    betSizeFilter,
+    isServerPaginated
+  ) => {
+    const hasClientSearch = searchQuery.trim().length > 0 && !searchFilteredUpstream;
+    // Provider filter is always applied as a safety net, but only reduces totalCount
+    // when the API didn't apply it
+    const hasProviderFilter = selectedProviders.length > 0;
+    const hasClientProviderFilter = hasProviderFilter && !providersFilteredUpstream;
+    const { maxMinBet, minMaxBet } = betSizeFilter;
+    const hasBetSizeFilter = !isServerPaginated && (maxMinBet !== null || minMaxBet !== null);
+
+    let games = searchFilteredGames;
+    if (hasProviderFilter) {
+      games = games.filter((game) => {
+        const providerSlug = getProviderSlug(game);
+        return providerSlug !== null && selectedProviders.includes(providerSlug);
+      });
+    }
+    if (hasBetSizeFilter) {
+      // Games without bet size info can't satisfy a stake filter
+      games = games.filter((game) => {
+        const { min, max } = game.betSize || {};
+        return (
+          (maxMinBet === null || (min !== undefined && min <= maxMinBet)) &&
+          (minMaxBet === null || (max !== undefined && max >= minMaxBet))
+        );
+      });
+    }
+
+    return {
+      games,
+      isClientFiltered: hasClientSearch || hasClientProviderFilter || hasBetSizeFilter,
+    };
+  }
+);
+
+// Comparators for client-side sort orders
+// Games without bet size info are sorted last
+const compareBet = (a: number | undefined, b: number | undefined, direction: 1 | -1) => {
+  if (a === undefined || b === undefined) {
+    return a === b ? 0 : a === undefined ? 1 : -1;
+  }
+  return (a - b) * direction;
+};
+
+const compareName = (a: GameTile, b: GameTile) => a.name.localeCompare(b.name);
+
+const GAME_COMPARATORS: Record<Exclude<SortOrder, 'default'>, (a: GameTile, b: GameTile) => number> = {
+  name: compareName,
+  provider: (a, b) =>
+    (a.provider || '\uffff').localeCompare(b.provider || '\uffff') || compareName(a, b),
+  // Lowest minimum stake first
+  minBet: (a, b) => compareBet(a.betSize?.min, b.betSize?.min, 1) || compareName(a, b),
+  // Highest maximum stake first
+  maxBet: (a, b) => compareBet(a.betSize?.max, b.betSize?.max, -1) || compareName(a, b),
+};
+
+// Memoized selector for filtered games in the selected sort order
+// API pages keep the API's order
+export const selectSortedGames = createSelector(
+  [selectFilteredGames, selectSortOrder, selectIsServerPaginated],
+  ({ games, isClientFiltered }, sortOrder, isServerPaginated) => ({
+    games:
+      sortOrder === 'default' || isServerPaginated
+        ? games
+        : [...games].sort(GAME_COMPARATORS[sortOrder]),
+    isClientFiltered,
+  })
+);
+
+// Memoized selector for the stake range of the loaded games (for the bet size filter options)
+export const selectBetSizeRange = createSelector([selectGames], (games) => {
+  let min: number | null = null;
+  let max: number | null = null;
+  for (const game of games) {
+    if (game.betSize?.min !== undefined) {
+      min = min === null ? game.betSize.min : Math.min(min, game.betSize.min);
+    }
+    if (game.betSize?.max !== undefined) {
+      max = max === null ? game.betSize.max : Math.max(max, game.betSize.max);
+    }
+  }
+  return { min, max };
+});
 
 // Memoized selector for games with pagination info
 // Server-side filtering: API filters by category via getPage URL
-// Client-side filtering: Filter by search query when API doesn't support it for certain categories
+// Client-side filtering: Search favorites, filter by provider/bet size where the API couldn't
 // Server-side pagination: API returns paginated games based on pageNumber/pageSize
 // Client-side pagination: Only when search is active and we have many games (likely client-side fetch)
+// Infinite scroll: every loaded page is shown - pageNumber is the number of pages loaded
 export const selectGamesWithPagination = createSelector(
-  [selectGames, selectTotalCount, selectPageSize, selectPageNumber, selectSearchQuery],
-  (games, totalCount, pageSize, pageNumber, searchQuery) => {
-    const hasSearch = searchQuery && searchQuery.trim().length > 0;
-    
-    // Filter games by search query if provided (client-side filtering)
-    // This ensures search works for all categories, even if the API doesn't support search parameter
-    let filteredGames = games;
-    if (hasSearch) {
-      const query = searchQuery.trim().toLowerCase();
-      filteredGames = games.filter((game) => {
-        const gameName = (game.name || '').toLowerCase();
-        return gameName.includes(query);
-      });
-    }
-    
+  [selectSortedGames, selectTotalCount, selectPageSize, selectPageNumber, selectScrollMode],
+  ({ games: filteredGames, isClientFiltered }, totalCount, pageSize, pageNumber, scrollMode) => {
     // Calculate total count for filtered results
-    const filteredTotalCount = hasSearch 
+    const filteredTotalCount = isClientFiltered
       ? filteredGames.length 
       : totalCount;
     
+    if (scrollMode === 'infinite') {
+      // Appended server pages are all shown; a fully fetched list is revealed page by page
+      const visibleCount = pageNumber * pageSize;
+      return {
+        games: filteredGames.slice(0, visibleCount),
+        totalCount: filteredTotalCount,
+        pageSize,
+        pageNumber,
+        hasMore: visibleCount < filteredTotalCount,
+        totalPages: Math.ceil(filteredTotalCount / pageSize) || 1,
+      };
+    }
+    
     // Determine if we should use client-side pagination:
     // - If we have many games (> pageSize): use client-side pagination
     //   This happens when:
     //   1. Endpoint doesn't support pagination (e.g., /pages/en/casino/most-popular) - returns all games
-    //   2. Search is active and endpoint doesn't support search - we fetch 200 games
+    //   2. Favorites category - all favorites are stored client-side
     // - If we have few games (<= pageSize): API already paginated, use as-is
     //   This happens when endpoint supports pagination and returned one page
     const shouldUseClientPagination = filteredGames.length > pageSize;
@@ -87,4 +347,3 @@ export const selectGamesWithPagination = createSelector(
     };
   }
 );
-
@@ -5,7 +5,8 @@
 
 import type { ThunkAction, ThunkDispatch } from 'redux-thunk';
 import { fetchConfig } from '@/services/api';
-import type { Category } from '@/types';
+import type { Category, Locale } from '@/types';
+import { DEFAULT_LOCALE } from '@/constants';
 
 // Forward declaration for RootState (will be defined in store.ts)
 type RootState = { games: unknown; categories: CategoriesState };
@@ -15,6 +16,7 @@ export const CATEGORIES_ACTION_TYPES = {
   // Sync actions
   SET_CATEGORIES: 'categories/SET_CATEGORIES',
   SET_SELECTED_CATEGORY: 'categories/SET_SELECTED_CATEGORY',
+  SET_LOCALE: 'categories/SET_LOCALE',
   CLEAR_ERROR: 'categories/CLEAR_ERROR',
   // Async actions
   FETCH_CATEGORIES_PENDING: 'categories/FETCH_CATEGORIES_PENDING',
@@ -26,6 +28,7 @@ export const CATEGORIES_ACTION_TYPES = {
 export interface CategoriesState {
   items: Category[];
   selectedCategory: Category | null;
+  locale: Locale; // Market the categories (and their getPage URLs) belong to
   loading: boolean;
   error: string | null;
 }
@@ -41,6 +44,11 @@ interface SetSelectedCategoryAction {
   payload: Category | null;
 }
 
+interface SetLocaleAction {
+  type: typeof CATEGORIES_ACTION_TYPES.SET_LOCALE;
+  payload: Locale;
+}
+
 interface ClearErrorAction {
   type: typeof CATEGORIES_ACTION_TYPES.CLEAR_ERROR;
 }
@@ -62,6 +70,7 @@ interface FetchCategoriesRejectedAction {
 export type CategoriesAction =
   | SetCategoriesAction
   | SetSelectedCategoryAction
+  | SetLocaleAction
   | ClearErrorAction
   | FetchCategoriesPendingAction
   | FetchCategoriesFulfilledAction
@@ -72,6 +81,7 @@ export type CategoriesAction =
 const initialState: CategoriesState = {
   items: [],
   selectedCategory: null,
+  locale: DEFAULT_LOCALE,
   loading: false,
   error: null,
 };
@@ -89,6 +99,11 @@ export const setSelectedCategory = (
   payload: category,
 });
 
+export const setLocale = (locale: Locale): SetLocaleAction => ({
+  type: CATEGORIES_ACTION_TYPES.SET_LOCALE,
+  payload: locale,
+});
+
 export const clearError = (): ClearErrorAction => ({
   type: CATEGORIES_ACTION_TYPES.CLEAR_ERROR,
 });
@@ -101,13 +116,14 @@ type CategoriesThunkAction = ThunkAction<
   CategoriesAction
 >;
 
-export const fetchCategories = (): CategoriesThunkAction => {
+export const fetchCategories = (locale?: Locale): CategoriesThunkAction => {
   return async (
-    dispatch: ThunkDispatch<RootState, unknown, CategoriesAction>
+    dispatch: ThunkDispatch<RootState, unknown, CategoriesAction>,
+    getState
   ) => {
     dispatch({ type: CATEGORIES_ACTION_TYPES.FETCH_CATEGORIES_PENDING } as CategoriesAction);
     try {
-      const categories = await fetchConfig();
+      const categories = await fetchConfig(locale || getState().categories.locale);
       dispatch({
         type: CATEGORIES_ACTION_TYPES.FETCH_CATEGORIES_FULFILLED,
         payload: categories,
@@ -147,6 +163,20 @@ export default function categoriesReducer(
       };
     }
 
+    case CATEGORIES_ACTION_TYPES.SET_LOCALE: {
+      const typedAction = action as SetLocaleAction;
+      if (typedAction.payload === state.locale) {
+        return state;
+      }
+      // Categories of another market have different getPage URLs - drop them
+      return {
+        ...state,
+        locale: typedAction.payload,
+        items: [],
+        selectedCategory: null,
+      };
+    }
+
     case CATEGORIES_ACTION_TYPES.CLEAR_ERROR:
       return {
         ...state,
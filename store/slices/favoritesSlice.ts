@@ -0,0 +1,96 @@
+/**
+ * Redux slice for managing favorite games
+ * Using plain Redux
+ * Persisted to localStorage by ReduxProvider
+ */
+
+import type { Category, GameTile } from '@/types';
+
+// Action Types
+export const FAVORITES_ACTION_TYPES = {
+  TOGGLE_FAVORITE: 'favorites/TOGGLE_FAVORITE',
+  HYDRATE_FAVORITES: 'favorites/HYDRATE_FAVORITES',
+} as const;
+
+// Virtual category listed in CategoriesNav
+// It has no getPage - its games are served from the stored favorites, not the API
+export const FAVORITES_CATEGORY: Category = {
+  id: 'favorites',
+  slug: 'favorites',
+  name: 'My Favorites',
+  getPage: '',
+  endpoint: 'store',
+};
+
+export const isFavoritesCategory = (category: Category | null | undefined): boolean =>
+  category?.id === FAVORITES_CATEGORY.id;
+
+// State interface
+export interface FavoritesState {
+  items: GameTile[]; // Most recently starred first
+  hydrated: boolean; // Whether items were loaded from localStorage
+}
+
+// Action interfaces
+interface ToggleFavoriteAction {
+  type: typeof FAVORITES_ACTION_TYPES.TOGGLE_FAVORITE;
+  payload: GameTile;
+}
+
+interface HydrateFavoritesAction {
+  type: typeof FAVORITES_ACTION_TYPES.HYDRATE_FAVORITES;
+  payload: GameTile[];
+}
+
+export type FavoritesAction =
+  | ToggleFavoriteAction
+  | HydrateFavoritesAction
+  | { type: string; [key: string]: unknown }; // Index signature for compatibility
+
+// Initial state
+const initialState: FavoritesState = {
+  items: [],
+  hydrated: false,
+};
+
+// Action Creators
+export const toggleFavorite = (game: GameTile): ToggleFavoriteAction => ({
+  type: FAVORITES_ACTION_TYPES.TOGGLE_FAVORITE,
+  payload: game,
+});
+
+export const hydrateFavorites = (games: GameTile[]): HydrateFavoritesAction => ({
+  type: FAVORITES_ACTION_TYPES.HYDRATE_FAVORITES,
+  payload: games,
+});
+
+// Reducer
+export default function favoritesReducer(
+  state: FavoritesState = initialState,
+  action: FavoritesAction
+): FavoritesState {
+  switch (action.type) {
+    case FAVORITES_ACTION_TYPES.TOGGLE_FAVORITE: {
+      const typedAction = action as ToggleFavoriteAction;
+      const isFavorite = state.items.some((game) => game.id === typedAction.payload.id);
+      return {
+        ...state,
+        items: isFavorite
+          ? state.items.filter((game) => game.id !== typedAction.payload.id)
+          : [typedAction.payload, ...state.items],
+      };
+    }
+
+    case FAVORITES_ACTION_TYPES.HYDRATE_FAVORITES: {
+      const typedAction = action as HydrateFavoritesAction;
+      return {
+        ...state,
+        items: typedAction.payload,
+        hydrated: true,
+      };
+    }
+
+    default:
+      return state;
+  }
+}
@@ -4,8 +4,18 @@
  */
 
 import type { ThunkAction, ThunkDispatch } from 'redux-thunk';
-import { fetchGamesTiles, fetchCategoryGames } from '@/services/api';
-import type { GameTile, GamesTilesParams } from '@/types';
+import { fetchGamesTiles, fetchCategoryGames, searchCategoryGames } from '@/services/api';
+import type { BetSizeFilter, GameTile, GamesTilesParams, ScrollMode, SortOrder } from '@/types';
+import {
+  DEFAULT_SCROLL_MODE,
+  GAMES_QUERY_CACHE_SIZE,
+  GAMES_QUERY_TTL,
+  INITIAL_PAGE_SIZE,
+} from '@/constants';
+import { getCategoryEndpoint } from '@/utils/categories';
+import { getProviderSlug } from '@/utils/games';
+import { canPrefetch } from '@/utils/network';
+import { CATEGORIES_ACTION_TYPES } from './categoriesSlice';
 
 // Import RootState from store
 import type { RootState } from '../store';
@@ -17,6 +27,11 @@ export const GAMES_ACTION_TYPES = {
   SET_PAGE_NUMBER: 'games/SET_PAGE_NUMBER',
   SET_PAGE_SIZE: 'games/SET_PAGE_SIZE',
   INCREASE_PAGE_SIZE: 'games/INCREASE_PAGE_SIZE',
+  TOGGLE_PROVIDER: 'games/TOGGLE_PROVIDER',
+  CLEAR_PROVIDERS: 'games/CLEAR_PROVIDERS',
+  SET_SORT_ORDER: 'games/SET_SORT_ORDER',
+  SET_BET_SIZE_FILTER: 'games/SET_BET_SIZE_FILTER',
+  SET_SCROLL_MODE: 'games/SET_SCROLL_MODE',
   CLEAR_GAMES: 'games/CLEAR_GAMES',
   CLEAR_ERROR: 'games/CLEAR_ERROR',
   // Async actions
@@ -26,17 +41,55 @@ export const GAMES_ACTION_TYPES = {
   FETCH_GAMES_BY_CATEGORY_PENDING: 'games/FETCH_GAMES_BY_CATEGORY_PENDING',
   FETCH_GAMES_BY_CATEGORY_FULFILLED: 'games/FETCH_GAMES_BY_CATEGORY_FULFILLED',
   FETCH_GAMES_BY_CATEGORY_REJECTED: 'games/FETCH_GAMES_BY_CATEGORY_REJECTED',
+  FETCH_GAMES_BY_CATEGORY_CANCELLED: 'games/FETCH_GAMES_BY_CATEGORY_CANCELLED',
+  FETCH_GAMES_BY_CATEGORY_CACHED: 'games/FETCH_GAMES_BY_CATEGORY_CACHED',
+  PREFETCH_GAMES_BY_CATEGORY_FULFILLED: 'games/PREFETCH_GAMES_BY_CATEGORY_FULFILLED',
 } as const;
 
+// Category requests tracked in state - older ones are forgotten
+const MAX_TRACKED_REQUESTS = 50;
+
+export type GamesRequestStatus = 'loading' | 'succeeded' | 'failed';
+
+// One category + search + page (+ providers) combination
+export interface GamesRequest {
+  requestId: number; // Sequence token of the last fetch of this combination
+  status: GamesRequestStatus;
+  error: string | null;
+}
+
+// Fetched page of one category request - the games themselves are in GamesState.entities
+export interface GamesQueryResult {
+  ids: string[];
+  totalCount: number;
+  requestedPageSize: number;
+  providersFilteredUpstream: boolean; // Sent with a provider filter and every game matched it
+  fetchedWithProviders: boolean; // Sent with a provider filter - otherwise it lists every provider
+  searchFilteredUpstream: boolean;
+  fetchedAt: number; // Reused until GAMES_QUERY_TTL has passed
+}
+
 // State interface
 export interface GamesState {
-  items: GameTile[];
+  entities: Record<string, GameTile>; // Every fetched game, stored once by id
+  itemIds: string[]; // Loaded games in order - select them with selectGames
   loading: boolean;
   error: string | null;
   searchQuery: string;
   pageNumber: number;
   pageSize: number;
   totalCount: number;
+  selectedProviders: string[]; // Provider slugs
+  providersFilteredUpstream: boolean; // Whether items were already filtered by the API
+  searchFilteredUpstream: boolean; // Whether items were already searched by the API
+  sortOrder: SortOrder;
+  betSizeFilter: BetSizeFilter;
+  scrollMode: ScrollMode; // In infinite mode pageNumber is the number of pages loaded
+  latestRequestId: number; // Only the latest category request's result is applied to items
+  latestRequestKey: string | null; // Combination the items belong to (or are being fetched for)
+  requests: Record<string, GamesRequest>; // By request key, see getGamesRequestKey
+  queries: Record<string, GamesQueryResult>; // Fetched pages by request key
+  facetIds: string[]; // Games of the latest view fetched without a provider filter - provider facets
 }
 
 // Action interfaces
@@ -60,6 +113,30 @@ interface IncreasePageSizeAction {
   payload: number;
 }
 
+interface ToggleProviderAction {
+  type: typeof GAMES_ACTION_TYPES.TOGGLE_PROVIDER;
+  payload: string;
+}
+
+interface ClearProvidersAction {
+  type: typeof GAMES_ACTION_TYPES.CLEAR_PROVIDERS;
+}
+
+interface SetSortOrderAction {
+  type: typeof GAMES_ACTION_TYPES.SET_SORT_ORDER;
+  payload: SortOrder;
+}
+
+interface SetBetSizeFilterAction {
+  type: typeof GAMES_ACTION_TYPES.SET_BET_SIZE_FILTER;
+  payload: BetSizeFilter;
+}
+
+interface SetScrollModeAction {
+  type: typeof GAMES_ACTION_TYPES.SET_SCROLL_MODE;
+  payload: ScrollMode;
+}
+
 interface ClearGamesAction {
   type: typeof GAMES_ACTION_TYPES.CLEAR_GAMES;
 }
@@ -87,24 +164,52 @@ interface FetchGamesRejectedAction {
   payload: string;
 }
 
+interface GamesRequestMeta {
+  requestId: number;
+  requestKey: string;
+}
+
 interface FetchGamesByCategoryPendingAction {
   type: typeof GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING;
+  payload: GamesRequestMeta;
 }
 
 interface FetchGamesByCategoryFulfilledAction {
   type: typeof GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_FULFILLED;
-  payload: {
+  payload: GamesRequestMeta & {
     games: GameTile[];
     totalCount: number;
     pageNumber: number;
     pageSize: number;
     requestedPageSize: number;
+    providersFilteredUpstream: boolean;
+    fetchedWithProviders: boolean;
+    searchFilteredUpstream: boolean;
+    append: boolean; // Add to the loaded games (infinite scroll) instead of replacing them
+    fetchedAt: number;
   };
 }
 
 interface FetchGamesByCategoryRejectedAction {
   type: typeof GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_REJECTED;
-  payload: string;
+  payload: GamesRequestMeta & { error: string };
+}
+
+interface FetchGamesByCategoryCancelledAction {
+  type: typeof GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CANCELLED;
+  payload: GamesRequestMeta;
+}
+
+// The request's page was fetched recently - shown from GamesState.queries
+interface FetchGamesByCategoryCachedAction {
+  type: typeof GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CACHED;
+  payload: GamesRequestMeta & { append: boolean };
+}
+
+// A page was prefetched - cached for later, the shown games stay as they are
+interface PrefetchGamesByCategoryFulfilledAction {
+  type: typeof GAMES_ACTION_TYPES.PREFETCH_GAMES_BY_CATEGORY_FULFILLED;
+  payload: Omit<FetchGamesByCategoryFulfilledAction['payload'], 'requestId' | 'append'>;
 }
 
 export type GamesAction =
@@ -112,6 +217,11 @@ export type GamesAction =
   | SetPageNumberAction
   | SetPageSizeAction
   | IncreasePageSizeAction
+  | ToggleProviderAction
+  | ClearProvidersAction
+  | SetSortOrderAction
+  | SetBetSizeFilterAction
+  | SetScrollModeAction
   | ClearGamesAction
   | ClearErrorAction
   | FetchGamesPendingAction
@@ -120,17 +230,32 @@ export type GamesAction =
   | FetchGamesByCategoryPendingAction
   | FetchGamesByCategoryFulfilledAction
   | FetchGamesByCategoryRejectedAction
+  | FetchGamesByCategoryCancelledAction
+  | FetchGamesByCategoryCachedAction
+  | PrefetchGamesByCategoryFulfilledAction
   | { type: string; [key: string]: unknown }; // Index signature for compatibility
 
 // Initial state
 const initialState: GamesState = {
-  items: [],
+  entities: {},
+  itemIds: [],
   loading: false,
   error: null,
   searchQuery: '',
   pageNumber: 1,
   pageSize: 10, // Initial page size - will be set in component on first load
   totalCount: 0,
+  selectedProviders: [],
+  providersFilteredUpstream: false,
+  searchFilteredUpstream: false,
+  sortOrder: 'default',
+  betSizeFilter: { maxMinBet: null, minMaxBet: null },
+  scrollMode: DEFAULT_SCROLL_MODE,
+  latestRequestId: 0,
+  latestRequestKey: null,
+  requests: {},
+  queries: {},
+  facetIds: [],
 };
 
 // Action Creators (Sync)
@@ -154,6 +279,30 @@ export const increasePageSize = (increment: number): IncreasePageSizeAction => (
   payload: increment,
 });
 
+export const toggleProvider = (providerSlug: string): ToggleProviderAction => ({
+  type: GAMES_ACTION_TYPES.TOGGLE_PROVIDER,
+  payload: providerSlug,
+});
+
+export const clearProviders = (): ClearProvidersAction => ({
+  type: GAMES_ACTION_TYPES.CLEAR_PROVIDERS,
+});
+
+export const setSortOrder = (sortOrder: SortOrder): SetSortOrderAction => ({
+  type: GAMES_ACTION_TYPES.SET_SORT_ORDER,
+  payload: sortOrder,
+});
+
+export const setBetSizeFilter = (filter: BetSizeFilter): SetBetSizeFilterAction => ({
+  type: GAMES_ACTION_TYPES.SET_BET_SIZE_FILTER,
+  payload: filter,
+});
+
+export const setScrollMode = (scrollMode: ScrollMode): SetScrollModeAction => ({
+  type: GAMES_ACTION_TYPES.SET_SCROLL_MODE,
+  payload: scrollMode,
+});
+
 export const clearGames = (): ClearGamesAction => ({
   type: GAMES_ACTION_TYPES.CLEAR_GAMES,
 });
@@ -195,69 +344,453 @@ export const fetchGames = (
   };
 };
 
+/**
+ * Key of a category request - one per category + search + page (+ providers) combination
+ * @param getPageUrl - The URL from category.getPage property
+ * @param params - Parameters the games are fetched with
+ * @param append - Whether the page is appended to the loaded games
+ * @returns Request key for GamesState.requests
+ */
+export function getGamesRequestKey(
+  getPageUrl: string,
+  params: GamesTilesParams,
+  append = false
+): string {
+  return [
+    getPageUrl,
+    params.locale || '',
+    params.search || '',
+    params.pageNumber || 1,
+    params.pageSize || '',
+    (params.providers || []).join(','),
+    append ? 'append' : 'replace',
+  ].join('|');
+}
+
+// Running category request of each store - a newer request aborts it
+// (keyed by the store's getState, so stores of different SSR requests never interfere)
+const activeRequests = new WeakMap<() => RootState, AbortController>();
+
+// Prefetches in flight of each store by request key - they settle, never reject
+const activePrefetches = new WeakMap<() => RootState, Map<string, Promise<void>>>();
+
+// Parameters a category request is sent with, derived from the params and the current state
+interface CategoryRequest {
+  requestKey: string;
+  fetchParams: GamesTilesParams & { pageNumber: number; pageSize: number };
+  useSearchIndex: boolean;
+  filterProvidersUpstream: boolean;
+  hasSearch: boolean;
+}
+
+// A fetched category page, before it is stored
+type CategoryPage = Omit<GamesQueryResult, 'ids'> & {
+  games: GameTile[];
+  pageNumber: number;
+  pageSize: number;
+};
+
+function resolveCategoryRequest(
+  state: RootState,
+  getPageUrl: string,
+  params: GamesTilesParams | undefined,
+  append: boolean
+): CategoryRequest {
+  const currentState = state.games;
+  
+  const searchQuery = params?.search || currentState.searchQuery || '';
+  const hasSearch = searchQuery.trim().length > 0;
+  
+  // Check if this endpoint supports search parameter
+  // Only /en/games/tiles endpoint supports search, other endpoints (/pages/en/casino/*) don't
+  const supportsSearch = getCategoryEndpoint(getPageUrl) === 'tiles';
+  
+  // When search is active:
+  // - If endpoint supports search: pass search to the category endpoint
+  // - If endpoint doesn't support search: ask /api/search, which searches
+  //   an index of the whole category and returns one page with the real total
+  const useSearchIndex = hasSearch && !supportsSearch;
+  
+  // Provider filter is forwarded wherever search is (category endpoint or search index)
+  // Otherwise the selector filters the loaded games client-side
+  const providers = params?.providers || currentState.selectedProviders;
+  const filterProvidersUpstream = (supportsSearch || useSearchIndex) && providers.length > 0;
+  
+  // Fetch games for the category with pagination
+  const fetchParams = {
+    pageNumber: params?.pageNumber || currentState.pageNumber || 1,
+    pageSize: params?.pageSize || currentState.pageSize || 10,
+    search: hasSearch ? searchQuery : undefined,
+    locale: params?.locale || state.categories.locale,
+    providers: filterProvidersUpstream ? providers : undefined,
+  };
+
+  return {
+    requestKey: getGamesRequestKey(getPageUrl, fetchParams, append),
+    fetchParams,
+    useSearchIndex,
+    filterProvidersUpstream,
+    hasSearch,
+  };
+}
+
+async function loadCategoryPage(
+  getPageUrl: string,
+  request: CategoryRequest,
+  signal?: AbortSignal
+): Promise<CategoryPage> {
+  const { fetchParams } = request;
+
+  // Fetch games using getPage URL - API will filter by category on server
+  let response = request.useSearchIndex
+    ? await searchCategoryGames(getPageUrl, fetchParams, { signal })
+    : await fetchCategoryGames(getPageUrl, fetchParams, { signal });
+
+  // Not every upstream honours the providers parameter - its page and total would
+  // include other providers, so the page is taken from the search index instead,
+  // which filters the whole category and counts the real total
+  const providers = fetchParams.providers || [];
+  const isOfRequestedProvider = (game: GameTile) => {
+    const providerSlug = getProviderSlug(game);
+    return providerSlug !== null && providers.includes(providerSlug);
+  };
+  if (
+    request.filterProvidersUpstream &&
+    !request.useSearchIndex &&
+    !response.games.every(isOfRequestedProvider)
+  ) {
+    response = await searchCategoryGames(getPageUrl, fetchParams, { signal });
+  }
+
+  const games = [...response.games]; // Convert readonly to mutable
+  // The selector still filters client-side unless every returned game is of a requested provider
+  const providersFilteredUpstream = request.filterProvidersUpstream && games.every(isOfRequestedProvider);
+
+  return {
+    games,
+    totalCount: response.totalCount || 0,
+    pageNumber: response.pageNumber || fetchParams.pageNumber,
+    pageSize: response.pageSize || fetchParams.pageSize,
+    requestedPageSize: fetchParams.pageSize, // Store the actual requested page size for pagination
+    providersFilteredUpstream,
+    fetchedWithProviders: request.filterProvidersUpstream,
+    searchFilteredUpstream: request.hasSearch,
+    fetchedAt: Date.now(),
+  };
+}
+
+const isFreshQuery = (query: GamesQueryResult | undefined) =>
+  query !== undefined && Date.now() - query.fetchedAt < GAMES_QUERY_TTL;
+
 // Fetch games for a specific category using the getPage URL
 // Server-side filtering: API filters games by category via getPage endpoint
-// Client-side filtering: When search is active, fetch more games to filter client-side
+// Search: categories whose endpoint ignores search are searched by /api/search
+// Infinite scroll: pass append to add the fetched page to the loaded games
+// Races: each request gets a sequence token - a new request aborts the running one and
+// only the latest request's result is applied; repeating the latest request is a no-op
+// unless it failed. Pass signal to cancel the request from outside as well
+// Cache: pages fetched (or prefetched) within GAMES_QUERY_TTL are shown from the store
+// without a request; a running prefetch of the page is waited for instead of repeated
 export const fetchGamesByCategory = (
   getPageUrl: string,
-  params?: GamesTilesParams
+  params?: GamesTilesParams,
+  { append = false, signal }: { append?: boolean; signal?: AbortSignal } = {}
 ): GamesThunkAction => {
   return async (dispatch: ThunkDispatch<RootState, unknown, GamesAction>, getState) => {
-    dispatch({ type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING } as GamesAction);
+    const currentState = getState().games;
+    const request = resolveCategoryRequest(getState(), getPageUrl, params, append);
+    const { requestKey } = request;
+
+    // The latest request is already loading or loaded
+    const latestStatus = currentState.requests[requestKey]?.status;
+    if (currentState.latestRequestKey === requestKey && latestStatus !== 'failed') {
+      return;
+    }
+
+    // Cancelled before it started - the 'abort' listener below would never fire
+    if (signal?.aborted) {
+      return;
+    }
+
+    const requestId = currentState.latestRequestId + 1;
+    activeRequests.get(getState)?.abort();
+    const controller = new AbortController();
+    activeRequests.set(getState, controller);
+    signal?.addEventListener('abort', () => controller.abort(), { once: true });
+
+    const meta = { requestId, requestKey };
+    const showCached = () =>
+      dispatch({
+        type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CACHED,
+        payload: { ...meta, append },
+      } as FetchGamesByCategoryCachedAction);
+    const cancel = () =>
+      dispatch({
+        type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CANCELLED,
+        payload: meta,
+      } as FetchGamesByCategoryCancelledAction);
+
     try {
-      const state = getState();
-      const currentState = state.games;
-      
-      const searchQuery = params?.search || currentState.searchQuery || '';
-      const hasSearch = searchQuery.trim().length > 0;
-      
-      // Check if this endpoint supports search parameter
-      // Only /en/games/tiles endpoint supports search, other endpoints (/pages/en/casino/*) don't
-      const supportsSearch = getPageUrl.includes('/en/games/tiles') || 
-                             getPageUrl === '/casino' || 
-                             getPageUrl === '/pages/en/casino';
-      
-      const basePageSize = params?.pageSize || currentState.pageSize || 10;
-      
-      // When search is active:
-      // - If endpoint supports search: use normal page size and pass search to API
-      // - If endpoint doesn't support search: fetch more games (200) to filter client-side
-      //   This ensures we have enough games to search through
-      const fetchPageSize = (hasSearch && !supportsSearch) 
-        ? 200 
-        : basePageSize;
-      
-      // Fetch games for the category with pagination
-      const fetchParams = {
-        pageNumber: params?.pageNumber || currentState.pageNumber || 1,
-        pageSize: fetchPageSize,
-        // Only pass search to API if endpoint supports it
-        // For other categories, we'll filter client-side using the selector
-        search: (hasSearch && supportsSearch) ? searchQuery : undefined,
-      };
+      // Fetched recently - show it right away
+      if (isFreshQuery(currentState.queries[requestKey])) {
+        showCached();
+        return;
+      }
+
+      dispatch({
+        type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING,
+        payload: meta,
+      } as FetchGamesByCategoryPendingAction);
+
+      const prefetch = activePrefetches.get(getState)?.get(requestKey);
+      if (prefetch) {
+        await prefetch;
+        if (controller.signal.aborted) {
+          cancel();
+          return;
+        }
+        if (isFreshQuery(getState().games.queries[requestKey])) {
+          showCached();
+          return;
+        }
+      }
+
+      const page = await loadCategoryPage(getPageUrl, request, controller.signal);
       
-      // Fetch games using getPage URL - API will filter by category on server
-      const response = await fetchCategoryGames(getPageUrl, fetchParams);
+      // Aborted after the response arrived - a newer request owns the games now
+      if (controller.signal.aborted) {
+        cancel();
+        return;
+      }
       
       dispatch({
         type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_FULFILLED,
-        payload: {
-          games: [...response.games], // Convert readonly to mutable
-          totalCount: response.totalCount || 0,
-          pageNumber: response.pageNumber || fetchParams.pageNumber,
-          pageSize: response.pageSize || fetchParams.pageSize,
-          requestedPageSize: basePageSize, // Store the actual requested page size for pagination
-        },
+        payload: { ...meta, ...page, append },
       } as FetchGamesByCategoryFulfilledAction);
     } catch (error) {
+      // Cancelled - not an error the user needs to see
+      if (controller.signal.aborted) {
+        cancel();
+        return;
+      }
       dispatch({
         type: GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_REJECTED,
-        payload: error instanceof Error ? error.message : 'Failed to fetch category games',
+        payload: {
+          ...meta,
+          error: error instanceof Error ? error.message : 'Failed to fetch category games',
+        },
       } as FetchGamesByCategoryRejectedAction);
+    } finally {
+      if (activeRequests.get(getState) === controller) {
+        activeRequests.delete(getState);
+      }
+    }
+  };
+};
+
+// Fetch the games the lobby shows: the selected category with the current search and page
+// Shared by GamesList and the server render of the lobby, so the server-rendered page
+// is found by the same request key and not fetched again on the client
+export const fetchSelectedCategoryGames = (): GamesThunkAction => {
+  return async (dispatch: ThunkDispatch<RootState, unknown, GamesAction>, getState) => {
+    const state = getState();
+    const category = state.categories.selectedCategory;
+
+    // Store categories (Favorites) are served from the store, not the API
+    if (!category?.getPage || category.endpoint === 'store') {
+      return;
     }
+
+    const { searchQuery, pageNumber, scrollMode } = state.games;
+
+    // Use client-side pagination if the endpoint doesn't support pagination
+    // (e.g., /pages/en/casino/most-popular) - unless search is active,
+    // then /api/search returns the requested page of the whole category
+    const hasSearch = searchQuery.trim().length > 0;
+    const useClientSidePagination = category.endpoint !== 'tiles' && !hasSearch;
+
+    // For client-side pagination, fetch with pageNumber=1 (we'll paginate client-side)
+    // In infinite mode, later server pages are appended to the loaded games
+    await dispatch(
+      fetchGamesByCategory(
+        category.getPage,
+        {
+          search: searchQuery || undefined,
+          pageNumber: useClientSidePagination ? 1 : pageNumber,
+          pageSize: INITIAL_PAGE_SIZE,
+        },
+        { append: scrollMode === 'infinite' && !useClientSidePagination && pageNumber > 1 }
+      )
+    );
   };
 };
 
+// Warm the cache with a category page the user is likely to open next
+// (adjacent pages, hovered categories) - stored without changing the shown games
+// Takes the same arguments as fetchGamesByCategory, so the page is found by the same request key
+// Best effort: skipped with Data Saver on or on 2G, when the page is cached or already
+// being fetched, and failures are ignored
+export const prefetchGamesByCategory = (
+  getPageUrl: string,
+  params?: GamesTilesParams,
+  { append = false }: { append?: boolean } = {}
+): GamesThunkAction => {
+  return async (dispatch: ThunkDispatch<RootState, unknown, GamesAction>, getState) => {
+    if (!canPrefetch()) {
+      return;
+    }
+
+    const currentState = getState().games;
+    const request = resolveCategoryRequest(getState(), getPageUrl, params, append);
+    const { requestKey } = request;
+
+    const prefetches = activePrefetches.get(getState) ?? new Map<string, Promise<void>>();
+    activePrefetches.set(getState, prefetches);
+    if (
+      isFreshQuery(currentState.queries[requestKey]) ||
+      prefetches.has(requestKey) ||
+      currentState.requests[requestKey]?.status === 'loading'
+    ) {
+      return;
+    }
+
+    const prefetch = (async () => {
+      try {
+        const page = await loadCategoryPage(getPageUrl, request);
+        dispatch({
+          type: GAMES_ACTION_TYPES.PREFETCH_GAMES_BY_CATEGORY_FULFILLED,
+          payload: { requestKey, ...page },
+        } as PrefetchGamesByCategoryFulfilledAction);
+      } catch {
+        // Fetched again when the page is actually opened
+      } finally {
+        prefetches.delete(requestKey);
+      }
+    })();
+    prefetches.set(requestKey, prefetch);
+    await prefetch;
+  };
+};
+
+// Record the status of a request, unless a newer fetch of the same combination replaced it
+// Keeps at most MAX_TRACKED_REQUESTS combinations, forgetting the oldest
+function trackRequest(
+  requests: Record<string, GamesRequest>,
+  requestKey: string,
+  request: GamesRequest
+): Record<string, GamesRequest> {
+  const current = requests[requestKey];
+  if (current && current.requestId > request.requestId) {
+    return requests;
+  }
+
+  const next = { ...requests };
+  delete next[requestKey];
+  next[requestKey] = request;
+
+  const keys = Object.keys(next);
+  keys.slice(0, Math.max(0, keys.length - MAX_TRACKED_REQUESTS)).forEach((key) => delete next[key]);
+  return next;
+}
+
+// Add games to the entity map - a game fetched again replaces the stored copy
+function mergeEntities(
+  entities: Record<string, GameTile>,
+  games: GameTile[]
+): Record<string, GameTile> {
+  if (games.length === 0) {
+    return entities;
+  }
+  const next = { ...entities };
+  games.forEach((game) => {
+    next[game.id] = game;
+  });
+  return next;
+}
+
+// Store a fetched page, dropping pages past GAMES_QUERY_TTL and the oldest
+// beyond GAMES_QUERY_CACHE_SIZE
+function cacheQuery(
+  queries: Record<string, GamesQueryResult>,
+  requestKey: string,
+  query: GamesQueryResult
+): Record<string, GamesQueryResult> {
+  const next: Record<string, GamesQueryResult> = {};
+  Object.entries(queries).forEach(([key, cached]) => {
+    if (key !== requestKey && query.fetchedAt - cached.fetchedAt < GAMES_QUERY_TTL) {
+      next[key] = cached;
+    }
+  });
+  next[requestKey] = query;
+
+  const keys = Object.keys(next);
+  keys.slice(0, Math.max(0, keys.length - GAMES_QUERY_CACHE_SIZE)).forEach((key) => delete next[key]);
+  return next;
+}
+
+// The cached form of a fetched page - game ids only, the games live in entities
+function toQueryResult(page: PrefetchGamesByCategoryFulfilledAction['payload']): GamesQueryResult {
+  return {
+    ids: (page.games || []).map((game) => game.id),
+    totalCount: page.totalCount,
+    requestedPageSize: page.requestedPageSize,
+    providersFilteredUpstream: page.providersFilteredUpstream,
+    fetchedWithProviders: page.fetchedWithProviders,
+    searchFilteredUpstream: page.searchFilteredUpstream,
+    fetchedAt: page.fetchedAt,
+  };
+}
+
+// Drop games no cached page or loaded list refers to anymore
+function pruneEntities(state: GamesState): GamesState {
+  const referenced = new Set([...state.itemIds, ...state.facetIds]);
+  Object.values(state.queries).forEach((query) => query.ids.forEach((id) => referenced.add(id)));
+  if (referenced.size === Object.keys(state.entities).length) {
+    return state;
+  }
+
+  const entities: Record<string, GameTile> = {};
+  referenced.forEach((id) => {
+    if (state.entities[id]) {
+      entities[id] = state.entities[id];
+    }
+  });
+  return { ...state, entities };
+}
+
+// Show a fetched page - replacing the loaded games, or appended to them (infinite scroll)
+function showQuery(state: GamesState, query: GamesQueryResult, append: boolean): GamesState {
+  // Appended pages may overlap the loaded games if the list shifted upstream
+  const loadedIds = new Set(state.itemIds);
+  const itemIds = append
+    ? [...state.itemIds, ...query.ids.filter((id) => !loadedIds.has(id))]
+    : query.ids;
+
+  // For server-side pagination: API returns the correct page for the requested pageNumber
+  // For client-side pagination: we fetch all games (pageNumber=1 in fetch), but user's pageNumber is in state
+  // 
+  // We determine which pagination mode based on game count:
+  // - If we have many games (> pageSize), it's client-side pagination (endpoint returned all games)
+  // - Otherwise, it's server-side pagination (API returned one page)
+  const requestedPageSize = query.requestedPageSize || state.pageSize;
+  const isClientSidePagination = itemIds.length > requestedPageSize;
+  
+  return {
+    ...state,
+    loading: false,
+    itemIds: [...itemIds], // Store all games for client-side filtering
+    totalCount: query.totalCount || itemIds.length,
+    // For server-side pagination: keep user's pageNumber from state (they selected the page)
+    // For client-side pagination: also keep user's pageNumber from state (selector will paginate)
+    pageNumber: state.pageNumber,
+    pageSize: requestedPageSize,
+    providersFilteredUpstream: query.providersFilteredUpstream,
+    searchFilteredUpstream: query.searchFilteredUpstream,
+    // Provider-filtered pages keep the facets of the unfiltered view, so other providers stay selectable
+    facetIds: query.fetchedWithProviders ? state.facetIds : [...itemIds],
+  };
+}
+
 // Reducer
 export default function gamesReducer(
   state: GamesState = initialState,
@@ -270,7 +803,65 @@ export default function gamesReducer(
         ...state,
         searchQuery: typedAction.payload,
         pageNumber: 1,
-        items: [],
+        itemIds: [],
+        facetIds: [],
+        latestRequestKey: null, // Items were cleared - the same request has to be fetched again
+      };
+    }
+    
+    // Switching categories starts from the first page with no provider filter,
+    // since providers are derived from the category's games
+    case CATEGORIES_ACTION_TYPES.SET_SELECTED_CATEGORY:
+      return {
+        ...state,
+        pageNumber: 1,
+        selectedProviders: [],
+        facetIds: [],
+      };
+    
+    case GAMES_ACTION_TYPES.TOGGLE_PROVIDER: {
+      const typedAction = action as ToggleProviderAction;
+      const isSelected = state.selectedProviders.includes(typedAction.payload);
+      return {
+        ...state,
+        selectedProviders: isSelected
+          ? state.selectedProviders.filter((slug) => slug !== typedAction.payload)
+          : [...state.selectedProviders, typedAction.payload],
+        pageNumber: 1,
+      };
+    }
+    
+    case GAMES_ACTION_TYPES.CLEAR_PROVIDERS:
+      return {
+        ...state,
+        selectedProviders: [],
+        pageNumber: 1,
+      };
+    
+    case GAMES_ACTION_TYPES.SET_SORT_ORDER: {
+      const typedAction = action as SetSortOrderAction;
+      return {
+        ...state,
+        sortOrder: typedAction.payload,
+        pageNumber: 1,
+      };
+    }
+    
+    case GAMES_ACTION_TYPES.SET_BET_SIZE_FILTER: {
+      const typedAction = action as SetBetSizeFilterAction;
+      return {
+        ...state,
+        betSizeFilter: typedAction.payload,
+        pageNumber: 1,
+      };
+    }
+    
+    case GAMES_ACTION_TYPES.SET_SCROLL_MODE: {
+      const typedAction = action as SetScrollModeAction;
+      return {
+        ...state,
+        scrollMode: typedAction.payload,
+        pageNumber: 1,
       };
     }
     
@@ -302,8 +893,10 @@ export default function gamesReducer(
     case GAMES_ACTION_TYPES.CLEAR_GAMES:
       return {
         ...state,
-        items: [],
+        itemIds: [],
         totalCount: 0,
+        latestRequestKey: null,
+        facetIds: [],
       };
     
     case GAMES_ACTION_TYPES.CLEAR_ERROR:
@@ -321,10 +914,13 @@ export default function gamesReducer(
     
     case GAMES_ACTION_TYPES.FETCH_GAMES_FULFILLED: {
       const typedAction = action as FetchGamesFulfilledAction;
+      const games = typedAction.payload.games || [];
       return {
         ...state,
         loading: false,
-        items: [...(typedAction.payload.games || [])],
+        entities: mergeEntities(state.entities, games),
+        itemIds: games.map((game) => game.id),
+        facetIds: games.map((game) => game.id),
         totalCount: typedAction.payload.totalCount || 0,
         pageNumber: typedAction.payload.pageNumber || state.pageNumber,
         pageSize: typedAction.payload.pageSize || state.pageSize,
@@ -340,48 +936,118 @@ export default function gamesReducer(
       };
     }
     
-    case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING:
+    case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_PENDING: {
+      const typedAction = action as FetchGamesByCategoryPendingAction;
+      const { requestId, requestKey } = typedAction.payload;
       // For client-side filtering: don't clear games if they're already loaded
       // Only clear on initial load (when items are empty)
       return {
         ...state,
         loading: true,
         error: null,
+        latestRequestId: requestId,
+        latestRequestKey: requestKey,
+        requests: trackRequest(state.requests, requestKey, { requestId, status: 'loading', error: null }),
         // Keep existing games during fetch for smoother UX
         // Games will be replaced when FETCH_GAMES_BY_CATEGORY_FULFILLED is dispatched
       };
+    }
     
     case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_FULFILLED: {
       const typedAction = action as FetchGamesByCategoryFulfilledAction;
-      const newGames = typedAction.payload.games || [];
-
-      // For server-side pagination: API returns the correct page for the requested pageNumber
-      // For client-side pagination: we fetch all games (pageNumber=1 in fetch), but user's pageNumber is in state
-      // 
-      // We determine which pagination mode based on game count:
-      // - If we have many games (> pageSize), it's likely client-side pagination (fetched 200 games)
-      // - Otherwise, it's server-side pagination (API returned one page)
-      const requestedPageSize = typedAction.payload.requestedPageSize || state.pageSize;
-      const isClientSidePagination = newGames.length > requestedPageSize;
-      
-      return {
+      const { requestId, requestKey, append } = typedAction.payload;
+      const fetchedGames = typedAction.payload.games || [];
+      const query = toQueryResult(typedAction.payload);
+      const nextState: GamesState = {
         ...state,
-        loading: false,
-        items: [...newGames], // Store all games for client-side filtering
-        totalCount: typedAction.payload.totalCount || newGames.length,
-        // For server-side pagination: keep user's pageNumber from state (they selected the page)
-        // For client-side pagination: also keep user's pageNumber from state (selector will paginate)
-        pageNumber: state.pageNumber,
-        pageSize: requestedPageSize,
+        entities: mergeEntities(state.entities, fetchedGames),
+        queries: cacheQuery(state.queries, requestKey, query),
+        requests: trackRequest(state.requests, requestKey, {
+          requestId,
+          status: 'succeeded',
+          error: null,
+        }),
       };
+
+      // A newer request was started meanwhile - its result replaces the games, not this one
+      if (requestId !== state.latestRequestId) {
+        return pruneEntities(nextState);
+      }
+
+      return pruneEntities(showQuery(nextState, query, append));
+    }
+    
+    case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CACHED: {
+      const typedAction = action as FetchGamesByCategoryCachedAction;
+      const { requestId, requestKey, append } = typedAction.payload;
+      const query = state.queries[requestKey];
+      if (!query) {
+        return state;
+      }
+
+      return showQuery(
+        {
+          ...state,
+          error: null,
+          latestRequestId: requestId,
+          latestRequestKey: requestKey,
+          requests: trackRequest(state.requests, requestKey, {
+            requestId,
+            status: 'succeeded',
+            error: null,
+          }),
+        },
+        query,
+        append
+      );
+    }
+    
+    case GAMES_ACTION_TYPES.PREFETCH_GAMES_BY_CATEGORY_FULFILLED: {
+      const typedAction = action as PrefetchGamesByCategoryFulfilledAction;
+      const { requestKey } = typedAction.payload;
+      return pruneEntities({
+        ...state,
+        entities: mergeEntities(state.entities, typedAction.payload.games || []),
+        queries: cacheQuery(state.queries, requestKey, toQueryResult(typedAction.payload)),
+      });
     }
     
     case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_REJECTED: {
       const typedAction = action as FetchGamesByCategoryRejectedAction;
+      const { requestId, requestKey, error } = typedAction.payload;
+      const requests = trackRequest(state.requests, requestKey, { requestId, status: 'failed', error });
+
+      if (requestId !== state.latestRequestId) {
+        return { ...state, requests };
+      }
+
       return {
         ...state,
         loading: false,
-        error: typedAction.payload,
+        error,
+        requests,
+      };
+    }
+    
+    // A cancelled request leaves no status behind; if it was the latest one
+    // (cancelled from outside), nothing is loading anymore
+    case GAMES_ACTION_TYPES.FETCH_GAMES_BY_CATEGORY_CANCELLED: {
+      const typedAction = action as FetchGamesByCategoryCancelledAction;
+      const { requestId, requestKey } = typedAction.payload;
+      const requests = { ...state.requests };
+      if (requests[requestKey]?.requestId === requestId) {
+        delete requests[requestKey];
+      }
+
+      if (requestId !== state.latestRequestId) {
+        return { ...state, requests };
+      }
+
+      return {
+        ...state,
+        loading: false,
+        latestRequestKey: null,
+        requests,
       };
     }
     
@@ -0,0 +1,115 @@
+/**
+ * Redux slice for managing recent search queries
+ * Using plain Redux
+ * Persisted to localStorage by ReduxProvider
+ */
+
+import { MAX_RECENT_SEARCHES } from '@/constants';
+import { normalizeSearchText } from '@/utils/search';
+
+// Action Types
+export const RECENT_SEARCHES_ACTION_TYPES = {
+  ADD_RECENT_SEARCH: 'recentSearches/ADD_RECENT_SEARCH',
+  CLEAR_RECENT_SEARCHES: 'recentSearches/CLEAR_RECENT_SEARCHES',
+  HYDRATE_RECENT_SEARCHES: 'recentSearches/HYDRATE_RECENT_SEARCHES',
+} as const;
+
+// State interface
+export interface RecentSearchesState {
+  items: string[]; // Most recent first
+  hydrated: boolean; // Whether items were loaded from localStorage
+}
+
+// Action interfaces
+interface AddRecentSearchAction {
+  type: typeof RECENT_SEARCHES_ACTION_TYPES.ADD_RECENT_SEARCH;
+  payload: string;
+}
+
+interface ClearRecentSearchesAction {
+  type: typeof RECENT_SEARCHES_ACTION_TYPES.CLEAR_RECENT_SEARCHES;
+}
+
+interface HydrateRecentSearchesAction {
+  type: typeof RECENT_SEARCHES_ACTION_TYPES.HYDRATE_RECENT_SEARCHES;
+  payload: string[];
+}
+
+export type RecentSearchesAction =
+  | AddRecentSearchAction
+  | ClearRecentSearchesAction
+  | HydrateRecentSearchesAction
+  | { type: string; [key: string]: unknown }; // Index signature for compatibility
+
+// Initial state
+const initialState: RecentSearchesState = {
+  items: [],
+  hydrated: false,
+};
+
+// Action Creators
+export const addRecentSearch = (query: string): AddRecentSearchAction => ({
+  type: RECENT_SEARCHES_ACTION_TYPES.ADD_RECENT_SEARCH,
+  payload: query,
+});
+
+export const clearRecentSearches = (): ClearRecentSearchesAction => ({
+  type: RECENT_SEARCHES_ACTION_TYPES.CLEAR_RECENT_SEARCHES,
+});
+
+export const hydrateRecentSearches = (queries: string[]): HydrateRecentSearchesAction => ({
+  type: RECENT_SEARCHES_ACTION_TYPES.HYDRATE_RECENT_SEARCHES,
+  payload: queries,
+});
+
+// Reducer
+export default function recentSearchesReducer(
+  state: RecentSearchesState = initialState,
+  action: RecentSearchesAction
+): RecentSearchesState {
+  switch (action.type) {
+    case RECENT_SEARCHES_ACTION_TYPES.ADD_RECENT_SEARCH: {
+      const typedAction = action as AddRecentSearchAction;
+      const query = typedAction.payload.trim();
+      const normalized = normalizeSearchText(query);
+      if (!normalized) {
+        return state;
+      }
+
+      // Debounced searches arrive while typing ("sta", "starb", "starburst") -
+      // a refinement of the latest search replaces it instead of adding another entry
+      const [latest, ...older] = state.items;
+      const normalizedLatest = latest === undefined ? '' : normalizeSearchText(latest);
+      const isRefinement =
+        normalizedLatest !== '' &&
+        (normalized.startsWith(normalizedLatest) || normalizedLatest.startsWith(normalized));
+      const previous = isRefinement ? older : state.items;
+
+      return {
+        ...state,
+        items: [
+          query,
+          ...previous.filter((item) => normalizeSearchText(item) !== normalized),
+        ].slice(0, MAX_RECENT_SEARCHES),
+      };
+    }
+
+    case RECENT_SEARCHES_ACTION_TYPES.CLEAR_RECENT_SEARCHES:
+      return {
+        ...state,
+        items: [],
+      };
+
+    case RECENT_SEARCHES_ACTION_TYPES.HYDRATE_RECENT_SEARCHES: {
+      const typedAction = action as HydrateRecentSearchesAction;
+      return {
+        ...state,
+        items: typedAction.payload.slice(0, MAX_RECENT_SEARCHES),
+        hydrated: true,
+      };
+    }
+
+    default:
+      return state;
+  }
+}
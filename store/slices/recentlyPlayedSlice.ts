@@ -0,0 +1,117 @@
+/**
+ * Redux slice for managing recently played games
+ * Using plain Redux
+ * Persisted to localStorage by ReduxProvider
+ */
+
+import type { GameTile, RecentlyPlayedEntry } from '@/types';
+import { MAX_RECENTLY_PLAYED } from '@/constants';
+
+// Action Types
+export const RECENTLY_PLAYED_ACTION_TYPES = {
+  RECORD_GAME_PLAYED: 'recentlyPlayed/RECORD_GAME_PLAYED',
+  CLEAR_RECENTLY_PLAYED: 'recentlyPlayed/CLEAR_RECENTLY_PLAYED',
+  HYDRATE_RECENTLY_PLAYED: 'recentlyPlayed/HYDRATE_RECENTLY_PLAYED',
+} as const;
+
+// State interface
+export interface RecentlyPlayedState {
+  items: RecentlyPlayedEntry[]; // Most recently played first, one entry per game
+  hydrated: boolean; // Whether items were loaded from localStorage
+}
+
+// Action interfaces
+interface RecordGamePlayedAction {
+  type: typeof RECENTLY_PLAYED_ACTION_TYPES.RECORD_GAME_PLAYED;
+  payload: RecentlyPlayedEntry;
+}
+
+interface ClearRecentlyPlayedAction {
+  type: typeof RECENTLY_PLAYED_ACTION_TYPES.CLEAR_RECENTLY_PLAYED;
+}
+
+interface HydrateRecentlyPlayedAction {
+  type: typeof RECENTLY_PLAYED_ACTION_TYPES.HYDRATE_RECENTLY_PLAYED;
+  payload: RecentlyPlayedEntry[];
+}
+
+export type RecentlyPlayedAction =
+  | RecordGamePlayedAction
+  | ClearRecentlyPlayedAction
+  | HydrateRecentlyPlayedAction
+  | { type: string; [key: string]: unknown }; // Index signature for compatibility
+
+// Initial state
+const initialState: RecentlyPlayedState = {
+  items: [],
+  hydrated: false,
+};
+
+// Keep the newest entry per game, newest first, within the history limit
+const normalizeEntries = (entries: RecentlyPlayedEntry[]): RecentlyPlayedEntry[] => {
+  const seen = new Set<string>();
+  return [...entries]
+    .sort((a, b) => b.playedAt - a.playedAt)
+    .filter((entry) => {
+      if (seen.has(entry.game.id)) {
+        return false;
+      }
+      seen.add(entry.game.id);
+      return true;
+    })
+    .slice(0, MAX_RECENTLY_PLAYED);
+};
+
+// Action Creators
+export const recordGamePlayed = (
+  game: GameTile,
+  playedAt: number = Date.now()
+): RecordGamePlayedAction => ({
+  type: RECENTLY_PLAYED_ACTION_TYPES.RECORD_GAME_PLAYED,
+  payload: { game, playedAt },
+});
+
+export const clearRecentlyPlayed = (): ClearRecentlyPlayedAction => ({
+  type: RECENTLY_PLAYED_ACTION_TYPES.CLEAR_RECENTLY_PLAYED,
+});
+
+export const hydrateRecentlyPlayed = (
+  entries: RecentlyPlayedEntry[]
+): HydrateRecentlyPlayedAction => ({
+  type: RECENTLY_PLAYED_ACTION_TYPES.HYDRATE_RECENTLY_PLAYED,
+  payload: entries,
+});
+
+// Reducer
+export default function recentlyPlayedReducer(
+  state: RecentlyPlayedState = initialState,
+  action: RecentlyPlayedAction
+): RecentlyPlayedState {
+  switch (action.type) {
+    case RECENTLY_PLAYED_ACTION_TYPES.RECORD_GAME_PLAYED: {
+      const typedAction = action as RecordGamePlayedAction;
+      return {
+        ...state,
+        items: normalizeEntries([typedAction.payload, ...state.items]),
+      };
+    }
+
+    case RECENTLY_PLAYED_ACTION_TYPES.CLEAR_RECENTLY_PLAYED:
+      return {
+        ...state,
+        items: [],
+      };
+
+    case RECENTLY_PLAYED_ACTION_TYPES.HYDRATE_RECENTLY_PLAYED: {
+      const typedAction = action as HydrateRecentlyPlayedAction;
+      return {
+        ...state,
+        items: normalizeEntries(typedAction.payload),
+        hydrated: true,
+      };
+    }
+
+    default:
+      return state;
+  }
+}
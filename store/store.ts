@@ -10,19 +10,31 @@ import type { ThunkDispatch } from 'redux-thunk';
 const thunk = require('redux-thunk').thunk;
 import gamesReducer from './slices/gamesSlice';
 import categoriesReducer from './slices/categoriesSlice';
+import favoritesReducer from './slices/favoritesSlice';
+import recentlyPlayedReducer from './slices/recentlyPlayedSlice';
+import recentSearchesReducer from './slices/recentSearchesSlice';
 import type { GamesState } from './slices/gamesSlice';
 import type { CategoriesState } from './slices/categoriesSlice';
+import type { FavoritesState } from './slices/favoritesSlice';
+import type { RecentlyPlayedState } from './slices/recentlyPlayedSlice';
+import type { RecentSearchesState } from './slices/recentSearchesSlice';
 
 // Root state type
 export interface RootState {
   games: GamesState;
   categories: CategoriesState;
+  favorites: FavoritesState;
+  recentlyPlayed: RecentlyPlayedState;
+  recentSearches: RecentSearchesState;
 }
 
 // Root reducer
 const rootReducer = combineReducers({
   games: gamesReducer,
   categories: categoriesReducer,
+  favorites: favoritesReducer,
+  recentlyPlayed: recentlyPlayedReducer,
+  recentSearches: recentSearchesReducer,
 });
 
 // Store type
@@ -34,8 +46,11 @@ type DeepPartial<T> = {
   [P in keyof T]?: T[P] extends object ? DeepPartial<T[P]> : T[P];
 };
 
+// State rendered on the server and handed to the client store (see app/[locale]/page.tsx)
+export type PreloadedState = DeepPartial<RootState>;
+
 // Create store factory
-export function makeStore(preloadedState?: DeepPartial<RootState>): AppStore {
+export function makeStore(preloadedState?: PreloadedState): AppStore {
   // Convert DeepPartial to RootState for preloadedState
   const initialState = preloadedState as RootState | undefined;
 
@@ -2,11 +2,24 @@
  * Type definitions for the Pika Casino Lobby application
  */
 
+import type { SUPPORTED_LOCALES } from '@/constants';
+
+// Locale code used in routes and upstream API paths (e.g. "en" in /pages/en/casino)
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Kind of endpoint a category's games come from
+// tiles: /{locale}/games/tiles - supports search, pagination and the provider filter
+// page: /pages/{locale}/casino/* page component - lists all its games at once
+// store: served from the Redux store (the virtual Favorites category)
+export type CategoryEndpoint = 'tiles' | 'page' | 'store';
+
 // Category type from config API
 export interface Category {
-  readonly id: string;
+  readonly id: string; // Stable across requests (menu id, or the slug)
+  readonly slug: string; // Locale-independent, derived from the menu path (e.g. "new-games")
   readonly name: string;
   readonly getPage: string; // URL to fetch games for this category
+  readonly endpoint: CategoryEndpoint;
 }
 
 // Menu item type from config API
@@ -19,11 +32,15 @@ export interface MenuItem {
   readonly getPage?: string;
   readonly url?: string;
   readonly path?: string;
+  readonly links?: {
+    readonly getPage?: string;
+    readonly getPageMetadata?: string;
+  };
 }
 
 // Config response type
 export interface ConfigResponse {
-  readonly categories?: readonly Category[];
+  readonly categories?: readonly MenuItem[];
   readonly menu?: {
     readonly lobby?: {
       readonly items?: readonly MenuItem[];
@@ -80,6 +97,53 @@ export interface GamesTilesParams {
   readonly pageNumber?: number;
   readonly pageSize?: number;
   readonly category?: string;
+  readonly locale?: Locale;
+  readonly providers?: readonly string[]; // Provider slugs, only supported by the tiles endpoint
+}
+
+// Sort orders for the games grid ('default' keeps the upstream order)
+export type SortOrder = 'default' | 'name' | 'provider' | 'minBet' | 'maxBet';
+
+// How further games are reached: numbered pages or appending while scrolling
+export type ScrollMode = 'paged' | 'infinite';
+
+// Bet size filter - null means "any"
+export interface BetSizeFilter {
+  readonly maxMinBet: number | null; // Minimum stake must be <= this value
+  readonly minMaxBet: number | null; // Maximum stake must be >= this value
+}
+
+// Provider facet derived from loaded games
+export interface ProviderFacet {
+  readonly slug: string;
+  readonly name: string;
+  readonly logo?: string;
+  readonly count: number;
+}
+
+// Character range in a string (end exclusive)
+export interface TextRange {
+  readonly start: number;
+  readonly end: number;
+}
+
+// Parts of the displayed game fields that matched the search query
+export interface SearchHighlights {
+  readonly name: readonly TextRange[];
+  readonly provider: readonly TextRange[];
+}
+
+// Search autocomplete entry
+export type SearchSuggestion =
+  | { readonly type: 'game'; readonly id: string; readonly label: string; readonly game: GameTile }
+  | { readonly type: 'provider'; readonly id: string; readonly label: string; readonly providerSlug: string }
+  | { readonly type: 'category'; readonly id: string; readonly label: string; readonly category: Category }
+  | { readonly type: 'recent'; readonly id: string; readonly label: string };
+
+// A game the user opened, with when it was last opened
+export interface RecentlyPlayedEntry {
+  readonly game: GameTile;
+  readonly playedAt: number; // Epoch milliseconds
 }
 
 // Type guard for Category
@@ -110,3 +174,14 @@ export function isGameTile(value: unknown): value is GameTile {
   );
 }
 
+// Type guard for RecentlyPlayedEntry
+export function isRecentlyPlayedEntry(value: unknown): value is RecentlyPlayedEntry {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'game' in value &&
+    'playedAt' in value &&
+    isGameTile((value as RecentlyPlayedEntry).game) &&
+    typeof (value as RecentlyPlayedEntry).playedAt === 'number'
+  );
+}
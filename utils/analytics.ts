@@ -6,7 +6,9 @@
 export enum EventType {
   SEARCH = 'search',
   CATEGORY_SELECT = 'category_select',
+  FILTER = 'filter',
   GAME_CLICK = 'game_click',
+  FAVORITE = 'favorite',
   LOAD_MORE = 'load_more',
   ERROR = 'error',
   PAGE_VIEW = 'page_view',
@@ -108,6 +110,17 @@ class Analytics {
     });
   }
 
+  /**
+   * Track selection of a search suggestion
+   */
+  trackSearchSuggestion(query: string, suggestionType: string, label: string): void {
+    this.track(EventType.SEARCH, 'search_suggestion', {
+      query,
+      suggestionType,
+      label,
+    });
+  }
+
   /**
    * Track category selection
    */
@@ -118,6 +131,16 @@ class Analytics {
     });
   }
 
+  /**
+   * Track filter change (provider, bet size, sort order)
+   */
+  trackFilter(filter: string, value: string): void {
+    this.track(EventType.FILTER, 'change_filter', {
+      filter,
+      value,
+    });
+  }
+
   /**
    * Track game click
    */
@@ -128,6 +151,16 @@ class Analytics {
     });
   }
 
+  /**
+   * Track favorite toggle
+   */
+  trackFavorite(gameId: string, gameName: string, isFavorite: boolean): void {
+    this.track(EventType.FAVORITE, isFavorite ? 'add_favorite' : 'remove_favorite', {
+      gameId,
+      gameName,
+    });
+  }
+
   /**
    * Track load more action
    */
@@ -1,184 +1,302 @@
 /**
- * Simple in-memory cache with TTL (Time To Live)
- * For rate limiting and caching API responses
+ * Server-side cache with TTL (Time To Live) and stale-while-revalidate
+ * Entries live in a pluggable backend: LRU memory (default) or file system
  */
 
-interface CacheEntry<T> {
+import {
+  CACHE_BACKEND,
+  CACHE_DIR,
+  CACHE_LAST_KNOWN_GOOD_MAX_BYTES,
+  CACHE_LAST_KNOWN_GOOD_MAX_ENTRIES,
+  CACHE_LAST_KNOWN_GOOD_TTL,
+  CACHE_MAX_BYTES,
+  CACHE_MAX_ENTRIES,
+} from '@/constants';
+import { logger } from './logger';
+import { FileSystemCacheBackend } from './fileCache';
+
+export interface CacheEntry<T> {
   data: T;
-  timestamp: number;
-  ttl: number;
+  timestamp: number; // When the entry was stored
+  staleAt: number; // Fresh until then
+  expiresAt: number; // Served as stale until then, then dropped
 }
 
-class SimpleCache {
-  private cache = new Map<string, CacheEntry<unknown>>();
+/**
+ * Storage for cache entries
+ * Backends only store entries and drop expired ones - freshness is decided by TtlCache
+ */
+export interface CacheBackend {
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  clearExpired(): Promise<void>;
+  size(): Promise<number>;
+}
 
-  /**
-   * Set a value in the cache
-   * @param key - Cache key
-   * @param value - Value to cache
-   * @param ttl - Time to live in milliseconds (default: 60000 = 1 minute)
-   */
-  set<T>(key: string, value: T, ttl = 60000): void {
-    this.cache.set(key, {
-      data: value,
-      timestamp: Date.now(),
-      ttl,
-    });
+export type CacheStatus = 'HIT' | 'STALE' | 'MISS'; // Reported in the X-Cache header
+
+interface MemoryRecord {
+  entry: CacheEntry<unknown>;
+  bytes: number;
+}
+
+/**
+ * In-memory backend with least-recently-used eviction
+ * Bounded by entry count and by the approximate size of the entries
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  // Map keeps insertion order - re-inserting on access keeps the most recently used last
+  private records = new Map<string, MemoryRecord>();
+  private bytes = 0;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+
+  constructor(maxEntries = CACHE_MAX_ENTRIES, maxBytes = CACHE_MAX_BYTES) {
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
   }
 
-  /**
-   * Get a value from the cache
-   * @param key - Cache key
-   * @returns Cached value or null if not found or expired
-   */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const record = this.records.get(key);
+    if (!record) {
       return null;
     }
-
-    const now = Date.now();
-    if (now - entry.timestamp > entry.ttl) {
-      // Entry expired, remove it
-      this.cache.delete(key);
+    if (Date.now() > record.entry.expiresAt) {
+      this.remove(key);
       return null;
     }
 
-    return entry.data as T;
+    this.records.delete(key);
+    this.records.set(key, record);
+    return record.entry as CacheEntry<T>;
   }
 
-  /**
-   * Check if a key exists and is not expired
-   * @param key - Cache key
-   * @returns true if key exists and is not expired
-   */
-  has(key: string): boolean {
-    const entry = this.cache.get(key);
-    if (!entry) {
-      return false;
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    this.remove(key);
+
+    // UTF-16 string size of the serialized data
+    const bytes = (JSON.stringify(entry.data)?.length || 0) * 2;
+    if (bytes > this.maxBytes) {
+      logger.warn('Cache entry too large, not cached', { key, bytes });
+      return;
+    }
+
+    this.records.set(key, { entry, bytes });
+    this.bytes += bytes;
+
+    // Evict least recently used entries
+    for (const oldestKey of this.records.keys()) {
+      if (this.records.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(oldestKey);
     }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.bytes = 0;
+  }
 
+  async clearExpired(): Promise<void> {
     const now = Date.now();
-    if (now - entry.timestamp > entry.ttl) {
-      // Entry expired, remove it
-      this.cache.delete(key);
-      return false;
+    for (const [key, record] of this.records.entries()) {
+      if (now > record.entry.expiresAt) {
+        this.remove(key);
+      }
     }
+  }
 
-    return true;
+  async size(): Promise<number> {
+    return this.records.size;
+  }
+
+  private remove(key: string): void {
+    const record = this.records.get(key);
+    if (record) {
+      this.bytes -= record.bytes;
+      this.records.delete(key);
+    }
   }
+}
+
+/**
+ * Cache with TTLs and stale-while-revalidate on top of a backend
+ * Last known good values are kept in a separate store, so churn of the regular
+ * entries can't evict them while the upstream is down
+ */
+export class TtlCache {
+  // Keys with a background refresh in flight
+  private revalidating = new Set<string>();
+  private readonly backend: CacheBackend;
+  private readonly lastKnownGood: CacheBackend;
 
   /**
-   * Delete a key from the cache
-   * @param key - Cache key
+   * @param backend - Store of the regular entries
+   * @param lastKnownGood - Store of the last known good values (default: small LRU memory store)
    */
-  delete(key: string): void {
-    this.cache.delete(key);
+  constructor(
+    backend: CacheBackend,
+    lastKnownGood: CacheBackend = new MemoryCacheBackend(
+      CACHE_LAST_KNOWN_GOOD_MAX_ENTRIES,
+      CACHE_LAST_KNOWN_GOOD_MAX_BYTES
+    )
+  ) {
+    this.backend = backend;
+    this.lastKnownGood = lastKnownGood;
   }
 
   /**
-   * Clear all expired entries
+   * Set a value in the cache
+   * @param key - Cache key
+   * @param value - Value to cache
+   * @param ttl - Time to live in milliseconds (default: 60000 = 1 minute)
+   * @param staleTtl - How long after the TTL the value may still be served stale (default: 0)
    */
-  clearExpired(): void {
+  async set<T>(key: string, value: T, ttl = 60000, staleTtl = 0): Promise<void> {
     const now = Date.now();
-    for (const [key, entry] of this.cache.entries()) {
-      if (now - entry.timestamp > entry.ttl) {
-        this.cache.delete(key);
-      }
-    }
+    await this.backend.set(key, {
+      data: value,
+      timestamp: now,
+      staleAt: now + ttl,
+      expiresAt: now + ttl + staleTtl,
+    });
   }
 
   /**
-   * Clear all entries
+   * Get a fresh value from the cache
+   * @param key - Cache key
+   * @returns Cached value or null if not found or past its TTL
    */
-  clear(): void {
-    this.cache.clear();
+  async get<T>(key: string): Promise<T | null> {
+    const result = await this.lookup<T>(key);
+    return result?.status === 'HIT' ? result.data : null;
   }
 
   /**
-   * Get cache size
-   * @returns Number of entries in cache
+   * Get a fresh or stale value from the cache
+   * @param key - Cache key
+   * @returns Cached value with HIT or STALE status, or null if not found or expired
    */
-  size(): number {
-    return this.cache.size;
+  async lookup<T>(key: string): Promise<{ data: T; status: Exclude<CacheStatus, 'MISS'> } | null> {
+    const entry = await this.backend.get<T>(key);
+    if (!entry) {
+      return null;
+    }
+    return { data: entry.data, status: Date.now() > entry.staleAt ? 'STALE' : 'HIT' };
   }
-}
 
-/**
- * Rate limiter using token bucket algorithm
- */
-class RateLimiter {
-  private requests = new Map<string, { count: number; resetTime: number }>();
-  private readonly maxRequests: number;
-  private readonly windowMs: number;
+  /**
+   * Refresh a stale value in the background
+   * Only one refresh runs per key; failures keep the stale value and are logged
+   * @param key - Cache key
+   * @param load - Fetches the fresh value (throws if it can't be cached)
+   * @param ttl - Time to live of the fresh value in milliseconds
+   * @param staleTtl - Stale window of the fresh value in milliseconds
+   * @returns Promise that settles when the refresh is done (no need to await it)
+   */
+  async revalidate<T>(
+    key: string,
+    load: () => Promise<T>,
+    ttl: number,
+    staleTtl: number
+  ): Promise<void> {
+    if (this.revalidating.has(key)) {
+      return;
+    }
 
-  constructor(maxRequests = 100, windowMs = 60000) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
+    this.revalidating.add(key);
+    try {
+      await this.set(key, await load(), ttl, staleTtl);
+    } catch (error) {
+      logger.warn('Cache revalidation failed, serving stale data', {
+        key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.revalidating.delete(key);
+    }
   }
 
   /**
-   * Check if a request is allowed
-   * @param key - Identifier for the rate limit (e.g., IP address)
-   * @returns true if request is allowed, false if rate limited
+   * Remember the last successful upstream response for a key
+   * Kept for CACHE_LAST_KNOWN_GOOD_TTL, long after the regular entry expired
+   * @param key - Cache key of the regular entry
+   * @param value - Value to keep
    */
-  isAllowed(key: string): boolean {
+  async setLastKnownGood<T>(key: string, value: T): Promise<void> {
     const now = Date.now();
-    const record = this.requests.get(key);
+    await this.lastKnownGood.set(key, {
+      data: value,
+      timestamp: now,
+      staleAt: now + CACHE_LAST_KNOWN_GOOD_TTL,
+      expiresAt: now + CACHE_LAST_KNOWN_GOOD_TTL,
+    });
+  }
 
-    if (!record || now > record.resetTime) {
-      // Create new window
-      this.requests.set(key, {
-        count: 1,
-        resetTime: now + this.windowMs,
-      });
-      return true;
-    }
+  /**
+   * Get the last successful upstream response for a key (served while the upstream is down)
+   * @param key - Cache key of the regular entry
+   * @returns Last known good value or null
+   */
+  async getLastKnownGood<T>(key: string): Promise<T | null> {
+    const entry = await this.lastKnownGood.get<T>(key);
+    return entry ? entry.data : null;
+  }
 
-    if (record.count >= this.maxRequests) {
-      return false;
-    }
+  /**
+   * Delete a key from the cache
+   * @param key - Cache key
+   */
+  async delete(key: string): Promise<void> {
+    await this.backend.delete(key);
+  }
 
-    record.count++;
-    return true;
+  /**
+   * Clear all expired entries
+   */
+  async clearExpired(): Promise<void> {
+    await Promise.all([this.backend.clearExpired(), this.lastKnownGood.clearExpired()]);
   }
 
   /**
-   * Get remaining requests for a key
-   * @param key - Identifier for the rate limit
-   * @returns Number of remaining requests
+   * Clear all entries, including the last known good values
    */
-  getRemaining(key: string): number {
-    const record = this.requests.get(key);
-    if (!record || Date.now() > record.resetTime) {
-      return this.maxRequests;
-    }
-    return Math.max(0, this.maxRequests - record.count);
+  async clear(): Promise<void> {
+    await Promise.all([this.backend.clear(), this.lastKnownGood.clear()]);
   }
 
   /**
-   * Clear expired entries
+   * Get cache size
+   * @returns Number of regular entries in cache
    */
-  clearExpired(): void {
-    const now = Date.now();
-    for (const [key, record] of this.requests.entries()) {
-      if (now > record.resetTime) {
-        this.requests.delete(key);
-      }
-    }
+  async size(): Promise<number> {
+    return this.backend.size();
   }
 }
 
 // Export singleton instances
-export const cache = new SimpleCache();
-export const rateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
+export const cache = new TtlCache(
+  CACHE_BACKEND === 'fs' ? new FileSystemCacheBackend(CACHE_DIR) : new MemoryCacheBackend()
+);
 
 // Clean up expired entries every 5 minutes (only on server)
 // Note: In Next.js API routes, this runs on the server
 if (typeof setInterval !== 'undefined' && typeof window === 'undefined') {
+  // Unref'd so the timer alone doesn't keep the process alive
   setInterval(() => {
-    cache.clearExpired();
-    rateLimiter.clearExpired();
-  }, 5 * 60 * 1000);
+    // A failed cleanup (e.g. unreadable cache directory) is retried on the next run
+    cache.clearExpired().catch((error) => {
+      logger.warn('Cache cleanup failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+  }, 5 * 60 * 1000).unref?.();
 }
 
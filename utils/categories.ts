@@ -0,0 +1,47 @@
+/**
+ * Category utilities
+ * Stable slugs and endpoint kinds for lobby categories from the config API
+ */
+
+import type { CategoryEndpoint } from '@/types';
+import { isLobbyPagePath, isTilesPath } from './locale';
+import { slugify } from './slug';
+
+// Locale prefix of upstream paths: "/pages/{locale}" or "/{locale}"
+const LOCALE_PREFIX_PATTERN = /^(\/pages)?\/[a-z]{2}(?=\/|$)/;
+
+/**
+ * Get the kind of endpoint behind a category path
+ * Only the tiles endpoint supports search, pagination and the provider filter;
+ * the Lobby page is served from the tiles endpoint as well
+ * @param path - getPage path, e.g. "/en/games/tiles" or "/pages/en/casino/new-games"
+ * @returns "tiles" or "page" (page component listing all its games at once)
+ */
+export function getCategoryEndpoint(path: string): CategoryEndpoint {
+  return isTilesPath(path) || isLobbyPagePath(path) ? 'tiles' : 'page';
+}
+
+// Upstream paths categories are served from: the tiles endpoint, or a casino page
+// component ("/pages/{locale}/casino" is the Lobby, "/pages/{locale}/casino/new-games")
+const CATEGORY_PATH_PATTERN = /^(\/[a-z]{2}\/games\/tiles|\/pages\/[a-z]{2}\/casino(\/[\w-]+)*)$/;
+
+/**
+ * Check if a path is the shape of a category's getPage path
+ * Used to keep arbitrary paths (each one an upstream crawl) out of the search index
+ * @param path - e.g. "/en/games/tiles" or "/pages/en/casino/new-games"
+ */
+export function isCategoryPath(path: string): boolean {
+  return CATEGORY_PATH_PATTERN.test(path);
+}
+
+/**
+ * Derive a locale-independent category slug from its menu path
+ * Menu paths live under "/casino": "/casino/new-games" -> "new-games", "/casino" -> "casino"
+ * @param path - Menu path or getPage path, e.g. "/casino/live" or "/pages/fi/casino/live"
+ * @returns Slug, or an empty string for paths without segments
+ */
+export function getCategorySlug(path: string): string {
+  const segments = path.replace(LOCALE_PREFIX_PATTERN, '').split('/').filter(Boolean);
+  const [first = '', ...rest] = segments;
+  return slugify(rest.length > 0 ? rest.join('-') : first);
+}
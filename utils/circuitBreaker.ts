@@ -0,0 +1,176 @@
+import { getCategoryEndpoint } from './categories';
+
+/**
+ * Circuit breaker for upstream calls
+ * After repeated failures the circuit opens and calls fail fast instead of piling up on a
+ * struggling upstream; after a cool-down one trial call decides whether it closes again
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // Time the circuit stays open before a trial call
+}
+
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  failures: number; // Consecutive failures
+  openedAt: string | null; // ISO timestamp, while open or half-open
+  retryAfterMs: number; // Until the next trial call (0 unless open)
+}
+
+/**
+ * Thrown instead of calling the upstream while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(name: string, retryAfterMs: number) {
+    super(`Circuit "${name}" is open`);
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private readonly name: string;
+  private readonly failureThreshold: number;
+  private readonly resetTimeoutMs: number;
+
+  constructor(name: string, { failureThreshold, resetTimeoutMs }: CircuitBreakerOptions) {
+    this.name = name;
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutMs;
+  }
+
+  /**
+   * Current state - an open circuit turns half-open once the reset timeout has passed
+   */
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      this.state = 'half-open';
+    }
+    return this.state;
+  }
+
+  /**
+   * Run an upstream call through the circuit
+   * @param fn - The upstream call; rejections count as failures
+   * @param isFailure - Also count some results as failures (e.g. 5xx responses), they are still returned
+   * @returns Result of fn
+   * @throws CircuitOpenError without calling fn while the circuit is open
+   *   (or half-open with the trial call still running)
+   */
+  async execute<T>(fn: () => Promise<T>, isFailure?: (result: T) => boolean): Promise<T> {
+    const state = this.getState();
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitOpenError(this.name, this.getRetryAfterMs());
+    }
+
+    const isTrial = state === 'half-open';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      if (isFailure?.(result)) {
+        this.recordFailure();
+      } else {
+        this.recordSuccess();
+      }
+      return result;
+    } catch (error) {
+      this.recordFailure();
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * State for health checks
+   */
+  getSnapshot(): CircuitSnapshot {
+    const state = this.getState();
+    return {
+      name: this.name,
+      state,
+      failures: this.failures,
+      openedAt: state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      retryAfterMs: state === 'open' ? this.getRetryAfterMs() : 0,
+    };
+  }
+
+  /**
+   * Close the circuit and forget failures
+   */
+  reset(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = 0;
+    this.trialInFlight = false;
+  }
+
+  private getRetryAfterMs(): number {
+    return Math.max(0, this.openedAt + this.resetTimeoutMs - Date.now());
+  }
+
+  private recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  // A failed trial call opens the circuit again right away
+  private recordFailure(): void {
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Whether an upstream response means the upstream is struggling
+ * 4xx responses (e.g. an unknown category) are answers, not failures
+ */
+export function isUpstreamFailure(response: Response): boolean {
+  return response.status >= 500 || response.status === 429;
+}
+
+// Kinds of upstream endpoints, each behind its own circuit - failures of one
+// (e.g. a broken casino page) don't make the others fail fast
+export type UpstreamEndpoint = 'config' | 'tiles' | 'page';
+
+const UPSTREAM_CIRCUIT_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+// Export singleton instances - shared by every API route
+export const upstreamCircuits: Record<UpstreamEndpoint, CircuitBreaker> = {
+  config: new CircuitBreaker('casino-api:config', UPSTREAM_CIRCUIT_OPTIONS),
+  tiles: new CircuitBreaker('casino-api:tiles', UPSTREAM_CIRCUIT_OPTIONS),
+  page: new CircuitBreaker('casino-api:page', UPSTREAM_CIRCUIT_OPTIONS),
+};
+
+/**
+ * Get the circuit of the endpoint behind an upstream path
+ * @param path - e.g. "/en/config", "/en/games/tiles?pageNumber=2" or "/pages/en/casino/new-games"
+ * @returns Circuit of the config, tiles or page endpoint
+ */
+export function getUpstreamCircuit(path: string): CircuitBreaker {
+  if (/^\/[a-z]{2}\/config(\?|$)/.test(path)) {
+    return upstreamCircuits.config;
+  }
+  return getCategoryEndpoint(path) === 'tiles' ? upstreamCircuits.tiles : upstreamCircuits.page;
+}
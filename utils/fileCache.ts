@@ -0,0 +1,117 @@
+/**
+ * File system cache backend
+ * Keeps cache entries as JSON files so they survive restarts of a single-node deployment
+ * (not shared safely between several nodes - use a shared store there)
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, rm, unlink, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import type { CacheBackend, CacheEntry } from './cache';
+import { logger } from './logger';
+
+interface CacheFile {
+  key: string;
+  entry: CacheEntry<unknown>;
+}
+
+const isMissingFile = (error: unknown) =>
+  (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+
+export class FileSystemCacheBackend implements CacheBackend {
+  private readonly directory: string;
+  private ready: Promise<unknown> | null = null;
+
+  /**
+   * @param directory - Directory for the cache files (default: pika-casino-cache in the OS temp dir)
+   */
+  constructor(directory?: string) {
+    this.directory = directory || path.join(tmpdir(), 'pika-casino-cache');
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const file = await this.read(this.getFilePath(key));
+    if (!file || file.key !== key) {
+      return null;
+    }
+    if (Date.now() > file.entry.expiresAt) {
+      await this.delete(key);
+      return null;
+    }
+    return file.entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await this.ensureDirectory();
+    const filePath = this.getFilePath(key);
+    // Write to a temporary file first so readers never see a partial entry
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await writeFile(tempPath, JSON.stringify({ key, entry } satisfies CacheFile));
+    await rename(tempPath, filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.getFilePath(key)).catch((error) => {
+      if (!isMissingFile(error)) {
+        throw error;
+      }
+    });
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.directory, { recursive: true, force: true });
+    this.ready = null;
+  }
+
+  async clearExpired(): Promise<void> {
+    const now = Date.now();
+    for (const fileName of await this.listFiles()) {
+      const filePath = path.join(this.directory, fileName);
+      const file = await this.read(filePath);
+      if (!file || now > file.entry.expiresAt) {
+        await rm(filePath, { force: true });
+      }
+    }
+  }
+
+  async size(): Promise<number> {
+    return (await this.listFiles()).length;
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    this.ready ??= mkdir(this.directory, { recursive: true });
+    return this.ready;
+  }
+
+  // Keys can contain any character - file names are their hash
+  private getFilePath(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.directory)).filter((fileName) => fileName.endsWith('.json'));
+    } catch (error) {
+      if (isMissingFile(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  // Missing or unreadable files count as cache misses
+  private async read(filePath: string): Promise<CacheFile | null> {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8')) as CacheFile;
+    } catch (error) {
+      if (!isMissingFile(error)) {
+        logger.warn('Unreadable cache file', {
+          filePath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return null;
+    }
+  }
+}
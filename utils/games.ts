@@ -0,0 +1,43 @@
+/**
+ * Game URL helpers
+ * Shared between the lobby tiles and the game detail page
+ */
+
+import type { GameTile, Locale } from '@/types';
+import { slugify } from './slug';
+
+/**
+ * Gets the identifier used in the game detail URL
+ * Prefers the human-readable slug, then platformId, then the id
+ * @param game - Game tile
+ * @returns URL-safe game identifier
+ */
+export function getGameSlug(game: Pick<GameTile, 'id' | 'slug' | 'platformId'>): string {
+  return game.slug || game.platformId || game.id;
+}
+
+/**
+ * Gets the path of the game detail page
+ * @param game - Game tile
+ * @param locale - Market locale
+ * @returns Path like "/en/games/book-of-dead"
+ */
+export function getGamePath(
+  game: Pick<GameTile, 'id' | 'slug' | 'platformId'>,
+  locale: Locale
+): string {
+  return `/${locale}/games/${encodeURIComponent(getGameSlug(game))}`;
+}
+
+/**
+ * Gets the provider slug of a game
+ * Falls back to a slug derived from the provider name when provider_slug is missing
+ * @param game - Game tile
+ * @returns Provider slug, or null if the game has no provider
+ */
+export function getProviderSlug(game: Pick<GameTile, 'provider' | 'provider_slug'>): string | null {
+  if (game.provider_slug) {
+    return game.provider_slug;
+  }
+  return game.provider ? slugify(game.provider) : null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Games grid layout helpers
+ * Shared by the virtualized grid and GameTile so columns and image sizes stay in sync
+ */
+
+import { GRID_BREAKPOINTS, GRID_MAX_COLUMNS } from '@/constants';
+
+/**
+ * Get the number of grid columns for a viewport width
+ * @param viewportWidth - Window inner width in pixels
+ * @returns Column count
+ */
+export function getGridColumns(viewportWidth: number): number {
+  const breakpoint = GRID_BREAKPOINTS.find(({ maxWidth }) => viewportWidth <= maxWidth);
+  return breakpoint ? breakpoint.columns : GRID_MAX_COLUMNS;
+}
+
+// `sizes` attribute for game thumbnails - one column's share of the viewport per breakpoint
+export const GAME_TILE_SIZES = [
+  ...GRID_BREAKPOINTS.map(
+    ({ maxWidth, columns }) => `(max-width: ${maxWidth}px) ${Math.round(100 / columns)}vw`
+  ),
+  `${Math.round(100 / GRID_MAX_COLUMNS)}vw`,
+].join(', ');
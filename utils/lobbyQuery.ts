@@ -0,0 +1,72 @@
+/**
+ * Lobby query string helpers
+ * Maps the lobby view (category, search, page) to and from the URL query string,
+ * e.g. "/en?category=new-games&search=book&page=2"
+ */
+
+export interface LobbyQuery {
+  category?: string; // Category id
+  search: string;
+  page: number;
+}
+
+// Query parameter names (search matches the SearchAction in StructuredData)
+export const LOBBY_QUERY_PARAMS = {
+  category: 'category',
+  search: 'search',
+  page: 'page',
+} as const;
+
+type QueryInput = URLSearchParams | Record<string, string | string[] | undefined>;
+
+function getParam(input: QueryInput, key: string): string | undefined {
+  if (input instanceof URLSearchParams) {
+    return input.get(key) ?? undefined;
+  }
+  const value = input[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parse the lobby view from a query string
+ * @param input - URLSearchParams on the client, searchParams object on the server
+ * @returns Lobby query with defaults for missing or invalid values
+ */
+export function parseLobbyQuery(input: QueryInput): LobbyQuery {
+  const category = getParam(input, LOBBY_QUERY_PARAMS.category)?.trim();
+  const search = getParam(input, LOBBY_QUERY_PARAMS.search)?.trim() || '';
+  const page = Number.parseInt(getParam(input, LOBBY_QUERY_PARAMS.page) || '', 10);
+
+  return {
+    category: category || undefined,
+    search,
+    page: Number.isFinite(page) && page > 1 ? page : 1,
+  };
+}
+
+/**
+ * Build the lobby part of a query string
+ * Default values (no search, first page) are omitted to keep URLs short
+ * @param query - Lobby query
+ * @param base - Existing query params to preserve (e.g. utm_*)
+ * @returns Query string without the leading "?"
+ */
+export function buildLobbyQuery(query: LobbyQuery, base?: URLSearchParams): string {
+  const params = new URLSearchParams(base);
+
+  const entries: [string, string | undefined][] = [
+    [LOBBY_QUERY_PARAMS.category, query.category],
+    [LOBBY_QUERY_PARAMS.search, query.search.trim() || undefined],
+    [LOBBY_QUERY_PARAMS.page, query.page > 1 ? String(query.page) : undefined],
+  ];
+
+  for (const [key, value] of entries) {
+    if (value) {
+      params.set(key, value);
+    } else {
+      params.delete(key);
+    }
+  }
+
+  return params.toString();
+}
@@ -0,0 +1,132 @@
+/**
+ * Locale utilities
+ * Resolves route locales and rewrites the locale segment of upstream API paths
+ * Upstream paths carry the locale as "/en/games/tiles" or "/pages/en/casino/..."
+ */
+
+import { SUPPORTED_LOCALES, DEFAULT_LOCALE, FALLBACK_LOCALE } from '@/constants';
+import type { Locale } from '@/types';
+
+// Matches the locale segment of "/en/..." and "/pages/en/..." paths
+const LOCALE_SEGMENT_PATTERN = /^(\/pages)?\/([a-z]{2})(?=\/|$)/;
+
+// OpenGraph expects language_TERRITORY locales
+const OPEN_GRAPH_LOCALES: Record<Locale, string> = {
+  en: 'en_US',
+  fi: 'fi_FI',
+  sv: 'sv_SE',
+  no: 'nb_NO',
+  de: 'de_DE',
+};
+
+/**
+ * Check if a value is one of the supported locales
+ */
+export function isSupportedLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a possibly unsupported locale to a supported one
+ * @param value - Locale from route params, query string or header
+ * @returns The locale if supported, otherwise the default locale
+ */
+export function resolveLocale(value?: string | null): Locale {
+  return isSupportedLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ * @param header - e.g. "fi-FI,fi;q=0.9,en;q=0.8"
+ * @returns Best matching supported locale, or the default locale
+ */
+export function negotiateLocale(header: string | null): Locale {
+  if (!header) {
+    return DEFAULT_LOCALE;
+  }
+
+  const candidates = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.split(';').map((value) => value.trim());
+      const quality = params.find((param) => param.startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1 };
+    })
+    // q=0 means "not acceptable" - invalid weights are dropped as well
+    .filter(({ quality }) => quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  // Norwegian Bokmål and Nynorsk both map to the "no" market
+  const match = candidates
+    .map(({ language }) => (language === 'nb' || language === 'nn' ? 'no' : language))
+    .find(isSupportedLocale);
+
+  return match || DEFAULT_LOCALE;
+}
+
+/**
+ * Convert a locale to the OpenGraph format
+ */
+export function toOpenGraphLocale(locale: Locale): string {
+  return OPEN_GRAPH_LOCALES[locale];
+}
+
+/**
+ * Extract the locale from an upstream API path
+ * @param path - e.g. "/en/games/tiles" or "/pages/fi/casino/new-games"
+ * @returns Supported locale, or null if the path has no (supported) locale segment
+ */
+export function getLocaleFromPath(path: string | null | undefined): Locale | null {
+  const match = path?.match(LOCALE_SEGMENT_PATTERN);
+  return match && isSupportedLocale(match[2]) ? match[2] : null;
+}
+
+/**
+ * Replace the locale segment of an upstream API path
+ * Paths without a locale segment are returned unchanged
+ * @param path - e.g. "/pages/en/casino/new-games"
+ * @param locale - Target locale
+ * @returns e.g. "/pages/fi/casino/new-games"
+ */
+export function localizePath(path: string, locale: Locale): string {
+  return path.replace(LOCALE_SEGMENT_PATTERN, (_match, pages?: string) => `${pages || ''}/${locale}`);
+}
+
+/**
+ * Check if the path is the games tiles endpoint (supports search and pagination)
+ */
+export function isTilesPath(path: string): boolean {
+  return /^\/[a-z]{2}\/games\/tiles/.test(path);
+}
+
+/**
+ * Check if the path is the Lobby page ("/casino" or "/pages/{locale}/casino")
+ * The Lobby page component does not work, so it is served from the tiles endpoint
+ */
+export function isLobbyPagePath(path: string): boolean {
+  return path === '/casino' || /^\/pages\/[a-z]{2}\/casino$/.test(path);
+}
+
+/**
+ * Fetch an upstream URL, retrying with the fallback locale on 404
+ * @param baseUrl - API base URL
+ * @param path - Localized upstream path, e.g. "/fi/config"
+ * @param init - Fetch options
+ * @returns The response and the locale it was served in
+ */
+export async function fetchWithLocaleFallback(
+  baseUrl: string,
+  path: string,
+  init?: RequestInit
+): Promise<{ response: Response; locale: Locale }> {
+  const locale = getLocaleFromPath(path) || DEFAULT_LOCALE;
+  const response = await fetch(`${baseUrl}${path}`, init);
+
+  // Upstream has no translation for this market - serve the fallback locale
+  if (response.status === 404 && locale !== FALLBACK_LOCALE) {
+    const fallbackResponse = await fetch(`${baseUrl}${localizePath(path, FALLBACK_LOCALE)}`, init);
+    return { response: fallbackResponse, locale: FALLBACK_LOCALE };
+  }
+
+  return { response, locale };
+}
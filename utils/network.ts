@@ -0,0 +1,29 @@
+/**
+ * Network helpers
+ * SSR-safe checks of the connection via the Network Information API
+ * (not available in every browser - assumed fine when missing)
+ */
+
+// Effective connection types too slow to spend on speculative requests
+const SLOW_CONNECTION_TYPES = ['slow-2g', '2g'];
+
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+/**
+ * Whether speculative requests (prefetching) are welcome on this connection
+ * @returns false on the server, with Data Saver on or on a 2G connection
+ */
+export function canPrefetch(): boolean {
+  if (typeof navigator === 'undefined') {
+    return false;
+  }
+
+  const connection = (navigator as Navigator & { connection?: NetworkInformation }).connection;
+  if (!connection) {
+    return true;
+  }
+  return !connection.saveData && !SLOW_CONNECTION_TYPES.includes(connection.effectiveType ?? '');
+}
@@ -0,0 +1,153 @@
+/**
+ * Rate limiting for the API routes
+ * Token bucket per client and route: bursts up to the limit, refilled evenly over the window
+ */
+
+import { NextResponse } from 'next/server';
+
+export interface RateLimitPolicy {
+  limit: number; // Bucket size - requests allowed in a burst
+  windowMs: number; // Time to refill an empty bucket
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole requests left right now
+  retryAfterMs: number; // Until the next request is allowed (0 if allowed)
+  resetMs: number; // Until the bucket is full again
+}
+
+// Per-route policies - config changes rarely, so clients need it far less often than games
+export const RATE_LIMIT_POLICIES = {
+  games: { limit: 100, windowMs: 60000 },
+  search: { limit: 60, windowMs: 60000 },
+  config: { limit: 30, windowMs: 60000 },
+} as const satisfies Record<string, RateLimitPolicy>;
+
+// Reverse proxies in front of the app that append to X-Forwarded-For (e.g. a load balancer)
+// With 0 the header can't be trusted at all, as clients can send any value
+const TRUSTED_PROXY_COUNT = Number.parseInt(process.env.TRUSTED_PROXY_COUNT || '1', 10);
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Rate limiter using the token bucket algorithm
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+  private readonly limit: number;
+  private readonly windowMs: number;
+
+  constructor({ limit, windowMs }: RateLimitPolicy) {
+    this.limit = limit;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Take one request from the client's bucket
+   * @param key - Identifier for the rate limit (e.g., IP address)
+   * @returns Whether the request is allowed, with the numbers for the rate limit headers
+   */
+  consume(key: string): RateLimitResult {
+    const now = Date.now();
+    const refillPerMs = this.limit / this.windowMs;
+    const bucket = this.buckets.get(key);
+    const tokens = bucket
+      ? Math.min(this.limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs)
+      : this.limit;
+
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+    this.buckets.set(key, { tokens: left, updatedAt: now });
+
+    return {
+      allowed,
+      limit: this.limit,
+      remaining: Math.floor(left),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - left) / refillPerMs),
+      resetMs: Math.ceil((this.limit - left) / refillPerMs),
+    };
+  }
+
+  /**
+   * Forget clients whose bucket has refilled completely
+   */
+  clearExpired(): void {
+    const now = Date.now();
+    for (const [key, bucket] of this.buckets.entries()) {
+      if (now - bucket.updatedAt >= this.windowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Get the client IP of a request behind TRUSTED_PROXY_COUNT reverse proxies
+ * Each proxy appends the address it received the request from to X-Forwarded-For,
+ * so only the last TRUSTED_PROXY_COUNT entries are trustworthy - anything before may be spoofed
+ * @param headers - Request headers
+ * @returns Client IP, or "unknown"
+ */
+export function getClientIp(headers: Headers): string {
+  const forwardedFor = (headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean);
+
+  if (TRUSTED_PROXY_COUNT > 0 && forwardedFor.length > 0) {
+    return forwardedFor[Math.max(0, forwardedFor.length - TRUSTED_PROXY_COUNT)];
+  }
+
+  return headers.get('x-real-ip')?.trim() || 'unknown';
+}
+
+/**
+ * Rate limit headers for a response
+ * X-RateLimit-Reset is in seconds until the limit is fully available again
+ */
+export function getRateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetMs / 1000)),
+  };
+}
+
+/**
+ * 429 response for a rejected request
+ */
+export function rateLimitExceeded(result: RateLimitResult): NextResponse {
+  return NextResponse.json(
+    {
+      error: 'Too many requests',
+      message: 'Rate limit exceeded. Please try again later.',
+    },
+    {
+      status: 429,
+      headers: {
+        'Retry-After': String(Math.ceil(result.retryAfterMs / 1000)),
+        ...getRateLimitHeaders(result),
+      },
+    }
+  );
+}
+
+// Export singleton instances, one per route policy
+export const rateLimiters = {
+  games: new RateLimiter(RATE_LIMIT_POLICIES.games),
+  search: new RateLimiter(RATE_LIMIT_POLICIES.search),
+  config: new RateLimiter(RATE_LIMIT_POLICIES.config),
+};
+
+// Clean up full buckets every 5 minutes (only on server)
+if (typeof setInterval !== 'undefined' && typeof window === 'undefined') {
+  // Unref'd so the timer alone doesn't keep the process alive
+  setInterval(() => {
+    Object.values(rateLimiters).forEach((limiter) => limiter.clearExpired());
+  }, 5 * 60 * 1000).unref?.();
+}
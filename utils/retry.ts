@@ -1,19 +1,114 @@
 /**
  * Retry utility with exponential backoff
- * @param fn - Function to retry
- * @param maxRetries - Maximum number of retries (default: 3)
- * @param initialDelay - Initial delay in milliseconds (default: 1000)
- * @param maxDelay - Maximum delay in milliseconds (default: 10000)
- * @returns Promise with the result of the function
+ * Jittered delays, cancellation through an AbortSignal, error classification
+ * (only transient failures are retried) and a total time budget
  */
 
+export type RetryJitter = 'none' | 'full' | 'decorrelated';
+
 export interface RetryOptions {
   maxRetries?: number;
   initialDelay?: number;
   maxDelay?: number;
+  // full: random delay up to the exponential backoff (default)
+  // decorrelated: random delay between initialDelay and 3x the previous delay
+  jitter?: RetryJitter;
+  signal?: AbortSignal; // Cancels the pending attempt's wait and any further attempts
+  maxElapsedTime?: number; // Total time budget - no retry is started that would wait past it
+  shouldRetry?: (error: Error, attempt: number) => boolean;
   onRetry?: (attempt: number, error: Error) => void;
 }
 
+/**
+ * Error for a non-ok HTTP response, keeps the status for retry decisions
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterMs: number | null; // From the Retry-After header
+
+  constructor(message: string, response: Response) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = response.status;
+    this.retryAfterMs = parseRetryAfter(response.headers?.get('Retry-After') ?? null);
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date)
+ * @returns Delay in milliseconds, or null if missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Whether an error comes from an aborted request or retry
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Default retry classification: network errors, 5xx and 429 are transient,
+ * other 4xx responses won't change on retry and aborts must not be retried
+ */
+export function isRetryableError(error: Error): boolean {
+  if (isAbortError(error)) {
+    return false;
+  }
+  if (error instanceof HttpError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return true;
+}
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+
+// Rejects with an AbortError as soon as the signal aborts
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function getAbortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException('The operation was aborted', 'AbortError');
+}
+
+/**
+ * Run fn, retrying transient failures with exponential backoff
+ * @param fn - Function to retry
+ * @param options - maxRetries (default: 3), initialDelay (default: 1000), maxDelay (default: 10000),
+ *   jitter (default: 'full'), signal, maxElapsedTime (default: none), shouldRetry (default: isRetryableError)
+ * @returns Promise with the result of the function
+ * @throws The last error once it can't be retried, or an AbortError once the signal aborts
+ */
 export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
@@ -22,27 +117,55 @@ export async function retryWithBackoff<T>(
     maxRetries = 3,
     initialDelay = 1000,
     maxDelay = 10000,
+    jitter = 'full',
+    signal,
+    maxElapsedTime = Infinity,
+    shouldRetry = isRetryableError,
     onRetry,
   } = options;
 
-  let lastError: Error | null = null;
+  const startedAt = Date.now();
+  let previousDelay = initialDelay;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
       return await fn();
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      const lastError = error instanceof Error ? error : new Error(String(error));
 
-      // Don't retry on the last attempt
-      if (attempt === maxRetries) {
+      // An abort during the attempt surfaces as whatever fn threw - report the abort
+      if (signal?.aborted) {
+        throw getAbortReason(signal);
+      }
+
+      // Don't retry on the last attempt or errors that won't go away
+      if (attempt >= maxRetries || !shouldRetry(lastError, attempt + 1)) {
         throw lastError;
       }
 
       // Calculate delay with exponential backoff
-      const delay = Math.min(
-        initialDelay * Math.pow(2, attempt),
-        maxDelay
-      );
+      const backoff = Math.min(initialDelay * Math.pow(2, attempt), maxDelay);
+      let delay =
+        jitter === 'full'
+          ? randomBetween(0, backoff)
+          : jitter === 'decorrelated'
+            ? Math.min(randomBetween(initialDelay, previousDelay * 3), maxDelay)
+            : backoff;
+      previousDelay = delay;
+
+      // The server said when to come back (429 / 503)
+      if (lastError instanceof HttpError && lastError.retryAfterMs !== null) {
+        delay = Math.max(delay, lastError.retryAfterMs);
+      }
+
+      // Out of time budget - waiting would only delay the failure
+      if (Date.now() - startedAt + delay > maxElapsedTime) {
+        throw lastError;
+      }
 
       // Call onRetry callback if provided
       if (onRetry) {
@@ -50,11 +173,7 @@ export async function retryWithBackoff<T>(
       }
 
       // Wait before retrying
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      await sleep(delay, signal);
     }
   }
-
-  // This should never be reached, but TypeScript needs it
-  throw lastError || new Error('Unknown error');
 }
-
@@ -0,0 +1,301 @@
+/**
+ * Client-side game search
+ * Ranked, accent-insensitive and typo-tolerant matching over several game fields,
+ * with highlight ranges for the fields shown on game tiles
+ */
+
+import type { Category, GameTile, SearchHighlights, SearchSuggestion, TextRange } from '@/types';
+import { MAX_SUGGESTIONS_PER_TYPE } from '@/constants';
+import { getProviderSlug } from './games';
+
+// Letters that don't decompose into a base letter + diacritic under NFD
+const FOLDED_LETTERS: Record<string, string> = {
+  ø: 'o',
+  æ: 'ae',
+  œ: 'oe',
+  ß: 'ss',
+  đ: 'd',
+  ł: 'l',
+  þ: 'th',
+};
+
+const DIACRITICS = /[\u0300-\u036f]/g;
+const WORD = /[a-z0-9]+/g; // Normalized text is folded to ASCII letters for the supported markets
+
+// How much a match in each field counts towards the score
+const FIELD_WEIGHTS = {
+  name: 1,
+  provider: 0.7,
+  slug: 0.6,
+  gameText: 0.4,
+} as const;
+
+type SearchField = keyof typeof FIELD_WEIGHTS;
+
+// Normalized text with the index of the original character behind every normalized one
+interface NormalizedText {
+  text: string;
+  sourceIndexes: number[];
+}
+
+interface TokenMatch {
+  score: number;
+  start: number; // In normalized text
+  end: number;
+}
+
+export interface SearchResult {
+  game: GameTile;
+  score: number;
+  highlights: SearchHighlights;
+}
+
+function normalizeWithSourceIndexes(value: string): NormalizedText {
+  let text = '';
+  const sourceIndexes: number[] = [];
+
+  for (let i = 0; i < value.length; i++) {
+    const lower = value[i].toLowerCase();
+    const folded = FOLDED_LETTERS[lower] ?? lower.normalize('NFD').replace(DIACRITICS, '');
+    text += folded;
+    for (let j = 0; j < folded.length; j++) {
+      sourceIndexes.push(i);
+    }
+  }
+
+  return { text, sourceIndexes };
+}
+
+/**
+ * Normalize text for matching: lowercase without diacritics ("Ölkärpänen" -> "olkarpanen")
+ * @param value - Text to normalize
+ * @returns Normalized text
+ */
+export function normalizeSearchText(value: string): string {
+  return normalizeWithSourceIndexes(value).text;
+}
+
+/**
+ * Split a search query into normalized tokens
+ * @param query - Raw search query
+ * @returns Tokens, all of which must match
+ */
+export function tokenizeQuery(query: string): string[] {
+  return normalizeSearchText(query).match(WORD) || [];
+}
+
+// Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows.push([i]);
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+}
+
+// Typos allowed for a token - short tokens must match exactly
+const maxTypos = (token: string) => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+function matchToken(token: string, text: string): TokenMatch | null {
+  // Exact substring, best at the start of a word
+  const index = text.indexOf(token);
+  if (index !== -1) {
+    const atWordStart = index === 0 || !/[a-z0-9]/.test(text[index - 1]);
+    return { score: atWordStart ? 1 : 0.6, start: index, end: index + token.length };
+  }
+
+  // Typo-tolerant match against whole words or the start of longer words (still typing)
+  const allowedTypos = maxTypos(token);
+  if (allowedTypos === 0) {
+    return null;
+  }
+
+  let best: TokenMatch | null = null;
+  for (const word of text.matchAll(WORD)) {
+    const wordStart = word.index ?? 0;
+    const prefix = word[0].slice(0, token.length);
+    const wordDistance = editDistance(token, word[0]);
+    const prefixDistance = editDistance(token, prefix);
+    const distance = Math.min(wordDistance, prefixDistance);
+    const score = 0.5 - 0.15 * distance;
+    if (distance <= allowedTypos && (!best || score > best.score)) {
+      const matchedLength = wordDistance <= prefixDistance ? word[0].length : prefix.length;
+      best = { score, start: wordStart, end: wordStart + matchedLength };
+    }
+  }
+  return best;
+}
+
+// Merge overlapping or touching ranges
+function mergeRanges(ranges: TextRange[]): TextRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: TextRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      merged[merged.length - 1] = { start: last.start, end: Math.max(last.end, range.end) };
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Search games by name, provider, slug and description
+ * Every query token has to match one of the fields; results are ranked by how well they match
+ * @param games - Games to search
+ * @param query - Raw search query
+ * @returns Matching games, best match first (ties keep their original order)
+ */
+export function searchGames(games: readonly GameTile[], query: string): SearchResult[] {
+  const tokens = tokenizeQuery(query);
+  if (tokens.length === 0) {
+    return games.map((game) => ({ game, score: 0, highlights: { name: [], provider: [] } }));
+  }
+  const normalizedQuery = tokens.join(' ');
+
+  const results: SearchResult[] = [];
+  for (const game of games) {
+    const fields = {
+      name: normalizeWithSourceIndexes(game.name || ''),
+      provider: normalizeWithSourceIndexes(game.provider || ''),
+      slug: normalizeWithSourceIndexes(game.slug || ''),
+      gameText: normalizeWithSourceIndexes(game.gameText || ''),
+    } satisfies Record<SearchField, NormalizedText>;
+
+    const highlights: { name: TextRange[]; provider: TextRange[] } = { name: [], provider: [] };
+    let score = 0;
+    let matchesAllTokens = true;
+
+    for (const token of tokens) {
+      let tokenScore = 0;
+      for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        const { text, sourceIndexes } = fields[field];
+        const match = matchToken(token, text);
+        if (!match) {
+          continue;
+        }
+        tokenScore = Math.max(tokenScore, match.score * FIELD_WEIGHTS[field]);
+        if (field === 'name' || field === 'provider') {
+          highlights[field].push({
+            start: sourceIndexes[match.start],
+            end: sourceIndexes[match.end - 1] + 1,
+          });
+        }
+      }
+
+      if (tokenScore === 0) {
+        matchesAllTokens = false;
+        break;
+      }
+      score += tokenScore;
+    }
+
+    if (!matchesAllTokens) {
+      continue;
+    }
+
+    // Prefer names that start with the whole query
+    if (fields.name.text.startsWith(normalizedQuery)) {
+      score += 1;
+    }
+
+    results.push({
+      game,
+      score,
+      highlights: {
+        name: mergeRanges(highlights.name),
+        provider: mergeRanges(highlights.provider),
+      },
+    });
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep the upstream order
+  return results.sort((a, b) => b.score - a.score);
+}
+
+// Whether every query token matches the text (exactly or with typos)
+const matchesAllTokens = (tokens: string[], text: string): boolean => {
+  const normalized = normalizeSearchText(text);
+  return tokens.every((token) => matchToken(token, normalized) !== null);
+};
+
+/**
+ * Build autocomplete suggestions for a partially typed query
+ * With an empty query only recent searches are suggested
+ * @param query - Raw input value
+ * @param sources - Loaded games, categories and recent searches to suggest from
+ * @returns Suggestions grouped by type: recent searches, games, providers, categories
+ */
+export function getSearchSuggestions(
+  query: string,
+  sources: {
+    games: readonly GameTile[];
+    categories: readonly Category[];
+    recentSearches: readonly string[];
+  }
+): SearchSuggestion[] {
+  const tokens = tokenizeQuery(query);
+  const normalizedQuery = tokens.join(' ');
+
+  const recent: SearchSuggestion[] = sources.recentSearches
+    .filter((term) => {
+      const normalized = tokenizeQuery(term).join(' ');
+      return normalized !== normalizedQuery && normalized.includes(normalizedQuery);
+    })
+    .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+    .map((term) => ({ type: 'recent', id: `recent-${term}`, label: term }));
+
+  if (tokens.length === 0) {
+    return recent;
+  }
+
+  const games: SearchSuggestion[] = searchGames(sources.games, query)
+    .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+    .map(({ game }) => ({ type: 'game', id: `game-${game.id}`, label: game.name, game }));
+
+  const providers = new Map<string, SearchSuggestion>();
+  for (const game of sources.games) {
+    const slug = getProviderSlug(game);
+    if (slug && game.provider && !providers.has(slug) && matchesAllTokens(tokens, game.provider)) {
+      providers.set(slug, {
+        type: 'provider',
+        id: `provider-${slug}`,
+        label: game.provider,
+        providerSlug: slug,
+      });
+    }
+  }
+
+  const categories: SearchSuggestion[] = sources.categories
+    .filter((category) => matchesAllTokens(tokens, category.name))
+    .slice(0, MAX_SUGGESTIONS_PER_TYPE)
+    .map((category) => ({
+      type: 'category',
+      id: `category-${category.id}`,
+      label: category.name,
+      category,
+    }));
+
+  return [
+    ...recent,
+    ...games,
+    ...[...providers.values()].slice(0, MAX_SUGGESTIONS_PER_TYPE),
+    ...categories,
+  ];
+}
@@ -0,0 +1,43 @@
+/**
+ * Service worker helpers
+ * Registers public/service-worker.js and hands it the app shell of the current page
+ */
+
+import { logger } from './logger';
+
+// Versioned by the build ID - a new build installs a new worker, which drops the caches of the old one
+const SERVICE_WORKER_URL = `/service-worker.js?v=${encodeURIComponent(process.env.NEXT_PUBLIC_BUILD_ID || 'dev')}`;
+
+// URLs the current page was built from: the page itself and its hashed build assets
+function getShellUrls(): string[] {
+  const assets = performance
+    .getEntriesByType('resource')
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).pathname.startsWith('/_next/static/'));
+  return [window.location.pathname, ...assets];
+}
+
+/**
+ * Register the service worker and ask it to precache the current page's shell
+ * No-op on the server, in browsers without service workers and outside production builds
+ * (a worker caching development assets gets in the way of hot reloading)
+ */
+export async function registerServiceWorker(): Promise<void> {
+  if (
+    typeof window === 'undefined' ||
+    !('serviceWorker' in navigator) ||
+    process.env.NODE_ENV !== 'production'
+  ) {
+    return;
+  }
+
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    const registration = await navigator.serviceWorker.ready;
+    registration.active?.postMessage({ type: 'CACHE_URLS', urls: getShellUrls() });
+  } catch (error) {
+    logger.warn('Service worker registration failed', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Request coalescing (single-flight)
+ * Concurrent calls with the same key share one in-flight promise instead of
+ * each starting its own request
+ */
+
+interface Flight {
+  promise: Promise<unknown>;
+  settledAt: number | null; // Set once the promise resolved
+}
+
+export class SingleFlight {
+  private flights = new Map<string, Flight>();
+
+  /**
+   * Run fn, or join the call already running for the key
+   * @param key - Identifies identical calls (e.g. a cache key)
+   * @param fn - Starts the call
+   * @param reuseFor - Also share a successful result for this many milliseconds after it
+   *   resolved (default: 0 - only concurrent calls are coalesced)
+   * @returns The shared result; failures are shared too but never reused afterwards
+   */
+  run<T>(key: string, fn: () => Promise<T>, reuseFor = 0): Promise<T> {
+    const flight = this.flights.get(key);
+    if (flight && (flight.settledAt === null || Date.now() - flight.settledAt < reuseFor)) {
+      return flight.promise as Promise<T>;
+    }
+
+    const next: Flight = { promise: Promise.resolve(), settledAt: null };
+    next.promise = fn().then(
+      (result) => {
+        if (reuseFor > 0 && this.flights.get(key) === next) {
+          next.settledAt = Date.now();
+        } else {
+          this.forget(key, next);
+        }
+        return result;
+      },
+      (error: unknown) => {
+        this.forget(key, next);
+        throw error;
+      }
+    );
+    this.flights.set(key, next);
+    return next.promise as Promise<T>;
+  }
+
+  /**
+   * Number of tracked calls (in flight or reusable)
+   */
+  size(): number {
+    return this.flights.size;
+  }
+
+  // A newer flight may have replaced this one for the key
+  private forget(key: string, flight: Flight): void {
+    if (this.flights.get(key) === flight) {
+      this.flights.delete(key);
+    }
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Slug helper
+ * One normalization for every slug derived from a display name (categories, providers),
+ * so the same name always yields the same slug
+ */
+
+/**
+ * Turn text into a URL slug ("New Games!" -> "new-games", "Play'n GO" -> "play-n-go")
+ */
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Strip accents
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,50 @@
+/**
+ * Local storage helpers
+ * SSR-safe wrappers around window.localStorage that never throw
+ * (storage may be unavailable in private mode or full)
+ */
+
+import { logger } from './logger';
+
+/**
+ * Load a JSON value from local storage
+ * @param key - Storage key
+ * @param fallback - Value returned on the server, when missing or unreadable
+ * @returns Parsed value or fallback
+ */
+export function loadFromStorage<T>(key: string, fallback: T): T {
+  if (typeof window === 'undefined') {
+    return fallback;
+  }
+
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (error) {
+    logger.warn('Failed to read from local storage', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return fallback;
+  }
+}
+
+/**
+ * Save a JSON value to local storage
+ * @param key - Storage key
+ * @param value - Serializable value
+ */
+export function saveToStorage<T>(key: string, value: T): void {
+  if (typeof window === 'undefined') {
+    return;
+  }
+
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    logger.warn('Failed to write to local storage', {
+      key,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}